@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useState, useEffect, useRef, useMemo, useDeferredValue } from 'react';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { 
   ViewMode, 
@@ -8,7 +8,14 @@ import {
   Partition, 
   ChatMessage, 
   SourceType, 
-  ProcessingStatus 
+  ProcessingStatus,
+  AnalysisMode,
+  ExhaustiveProgress,
+  Conversation,
+  Citation,
+  AppSettings,
+  IngestJob,
+  Entity
 } from './types';
 import { 
   IconPlus, 
@@ -16,6 +23,7 @@ import {
   IconFolder, 
   IconChat, 
   IconSend, 
+  IconStop,
   IconLoader, 
   IconTrash,
   IconSettings,
@@ -27,8 +35,52 @@ import {
 import { Modal } from './components/Modal';
 import { UploadManager } from './components/UploadManager';
 import { AvatarGenerator } from './components/AvatarGenerator';
-import { analyzeData, extractTextFromDocument } from './services/geminiService';
-import { saveSourcesToDB, getSourcesFromDB } from './services/storageService';
+import { ComputationLog } from './components/ComputationLog';
+import { ContextReportView } from './components/ContextReportView';
+import { BatchProgressPanel } from './components/BatchProgressPanel';
+import { ConversationList } from './components/ConversationList';
+import { CitationViewer } from './components/CitationViewer';
+import { CLAIM_STYLES, VerificationBadge } from './components/VerificationBadge';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ArchivePanel } from './components/ArchivePanel';
+import { EntityRegistryPanel } from './components/EntityRegistryPanel';
+import { PartitionDeleteMode, PartitionManager } from './components/PartitionManager';
+import { LibraryLayout, LibraryToolbar, SOURCE_TYPE_LABELS, STATUS_LABELS } from './components/LibraryToolbar';
+import { HighlightedText } from './components/HighlightedText';
+import { SourceDetailPanel } from './components/SourceDetailPanel';
+import { VersionPanel } from './components/VersionPanel';
+import { DuplicateDecision, DuplicateReview, FlaggedUpload } from './components/DuplicateReview';
+import { IngestQueuePanel } from './components/IngestQueuePanel';
+import { analyzeData, analyzeExhaustive, extractImageContent, extractTextFromDocument, summarizeContent } from './services/analysisService';
+import { fetchWebPage } from './services/webService';
+import { SUPPORTED_ENCODINGS, TextEncoding, base64ToBytes, decodeBase64Text } from './services/encodingService';
+import { isSpreadsheetFile, parseWorkbook } from './services/spreadsheetService';
+import { imagesFromClipboard, isImageFile, prepareImage } from './services/imageService';
+import { parseCsvTable } from './services/csvService';
+import { 
+  saveSourceToDB, 
+  getSourcesFromDB, 
+  deleteSourceFromDB,
+  saveConversationToDB,
+  getConversationsFromDB,
+  deleteConversationFromDB,
+  savePartitionsToDB,
+  getPartitionsFromDB,
+  saveSettingToDB,
+  getSettingFromDB,
+  saveSourceFileToDB,
+  getSourceFileFromDB
+} from './services/storageService';
+import { indexSource } from './services/retrievalService';
+import { CITE_SCHEME, formatCitation, linkifyCitations, parseCitationHref } from './services/citationService';
+import { verifyAnswer } from './services/verificationService';
+import { getSettings, saveSettings } from './services/settingsService';
+import { applyArchive, ImportMode, KnowledgeArchive } from './services/archiveService';
+import { EMPTY_FILTERS, LibraryFilters, LibrarySort, SearchSnippet, searchSources } from './services/searchService';
+import { findDuplicates, hashBytes } from './services/duplicateService';
+import { createIngestQueue } from './services/ingestQueue';
+import { getVersionGroupId, getVersionHistory, latestVersions, nextVersionFields, resolveVersions } from './services/versionService';
+import { collectScopePartitions, expandPartitionScope, flattenPartitionTree, getDescendantIds, getPartitionLabel, getPartitionPath } from './services/partitionService';
 
 const INITIAL_PARTITIONS: Partition[] = [
   { id: 'all', name: '全部内容', isSystem: true },
@@ -38,19 +90,87 @@ const INITIAL_PARTITIONS: Partition[] = [
   { id: 'uncategorized', name: '未分类', isSystem: true },
 ];
 
+const DEFAULT_ANALYSIS_PARTITIONS = ['config', 'sales', 'reports'];
+
+type PendingUpload = Pick<FlaggedUpload, 'file' | 'dataUrl' | 'contentHash'>;
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const detectSourceType = (file: File): SourceType => {
+  const name = file.name.toLowerCase();
+  return name.endsWith('.pdf') ? SourceType.PDF : name.endsWith('.csv') ? SourceType.CSV : isSpreadsheetFile(file.name) ? SourceType.SPREADSHEET : isImageFile(file) ? SourceType.IMAGE : SourceType.TEXT;
+};
+
+// 放行引用链接的自定义协议，其余链接沿用默认的安全过滤
+const markdownUrlTransform = (url: string) => url.startsWith(CITE_SCHEME) ? url : defaultUrlTransform(url);
+
+// 为表格单元格标注列序号，核验结果按“答案行号 + 列序号”定位到单元格
+const rehypeCellIndex = () => (tree: any) => {
+  const visit = (node: any) => {
+    if (node.tagName === 'tr') {
+      node.children.filter((c: any) => c.type === 'element').forEach((c: any, i: number) => { c.properties = { ...c.properties, dataCell: i }; });
+    }
+    node.children?.forEach(visit);
+  };
+  visit(tree);
+};
+const DEFAULT_CONVERSATION_TITLE = '新会话';
+
+const createConversation = (partitionIds: string[]): Conversation => ({
+  id: Math.random().toString(36).substr(2, 9),
+  title: DEFAULT_CONVERSATION_TITLE,
+  messages: [],
+  partitionIds,
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
 const App: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('library');
   const [sources, setSources] = useState<KnowledgeSource[]>([]);
-  const [partitions, setPartitions] = useState<Partition[]>(() => {
-    const saved = localStorage.getItem('kb_partitions');
-    return saved ? JSON.parse(saved) : INITIAL_PARTITIONS;
-  });
+  const [partitions, setPartitions] = useState<Partition[]>(INITIAL_PARTITIONS);
+  // 持久化数据载入完成前不回写，避免初始空状态覆盖已保存的数据
+  const [isLoaded, setIsLoaded] = useState(false);
+  const savedSourcesRef = useRef(new Map<string, KnowledgeSource>());
+  // 导入队列异步执行时读取最新的数据源列表
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+  const [ingestJobs, setIngestJobs] = useState<IngestJob[]>([]);
+  const ingestRunnerRef = useRef<(sourceId: string) => Promise<void>>(async () => {});
+  const ingestQueue = useMemo(() => createIngestQueue({
+    run: (sourceId) => ingestRunnerRef.current(sourceId),
+    getConcurrency: () => getSettings().ingestConcurrency,
+    onChange: setIngestJobs,
+    onFailed: (sourceId, reason) => setSources(prev => prev.map(s => s.id === sourceId ? {
+      ...s, summary: `${s.type === SourceType.WEB ? '抓取' : '挂载'}失败：${reason}`, errorMessage: reason, status: ProcessingStatus.ERROR
+    } : s)),
+  }), []);
 
   const [currentPartitionId, setCurrentPartitionId] = useState('all');
-  const [selectedAnalysisPartitions, setSelectedAnalysisPartitions] = useState<string[]>(['config', 'sales', 'reports']);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [libraryFilters, setLibraryFilters] = useState<LibraryFilters>(EMPTY_FILTERS);
+  const [librarySort, setLibrarySort] = useState<LibrarySort>('relevance');
+  const [libraryLayout, setLibraryLayout] = useState<LibraryLayout>('grid');
+  // 详情面板按版本组打开，上传新版本后自动切换到最新版本
+  const [detailGroupId, setDetailGroupId] = useState<string | null>(null);
+  const [duplicateReview, setDuplicateReview] = useState<{ uploads: FlaggedUpload[], partitionId: string } | null>(null);
+  // 全文检索在大文本上较慢，输入时延后计算以保持输入框流畅
+  const deferredFilters = useDeferredValue(libraryFilters);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const savedConversationsRef = useRef(new Map<string, Conversation>());
+  const activeConversation = conversations.find(c => c.id === activeConversationId) || null;
+  const chatHistory = activeConversation?.messages || [];
+  const selectedAnalysisPartitions = activeConversation?.partitionIds || DEFAULT_ANALYSIS_PARTITIONS;
   const [query, setQuery] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('standard');
+  const [batchProgress, setBatchProgress] = useState<ExhaustiveProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // 深度拖拽状态
   const [isDraggingFile, setIsDraggingFile] = useState(false);
@@ -59,27 +179,95 @@ const App: React.FC = () => {
   const dragCounter = useRef(0);
 
   const [currentAvatar, setCurrentAvatar] = useState<string | null>(null);
-  const [avatarName, setAvatarName] = useState(() => localStorage.getItem('avatar_name') || '智擎所长');
+  const [avatarName, setAvatarName] = useState('智擎所长');
   const [isEditingName, setIsEditingName] = useState(false);
   const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [isAvatarOpen, setIsAvatarOpen] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isPartitionManagerOpen, setIsPartitionManagerOpen] = useState(false);
+  const [isEntityRegistryOpen, setIsEntityRegistryOpen] = useState(false);
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
   
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const nameInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const loadData = async () => {
+      const savedPartitions = await getPartitionsFromDB();
+      if (savedPartitions.length > 0) setPartitions(savedPartitions);
       const savedSources = await getSourcesFromDB();
-      if (savedSources) setSources(savedSources);
-      const savedAvatar = localStorage.getItem('user_avatar');
+      savedSources.forEach(s => savedSourcesRef.current.set(s.id, s));
+      // 上次关闭页面时仍在处理的导入重新排队
+      setSources(savedSources.map(s => s.status === ProcessingStatus.PROCESSING ? { ...s, status: ProcessingStatus.PENDING } : s));
+      const savedActiveId = await getSettingFromDB<string>('active_conversation');
+      const savedConversations = await getConversationsFromDB();
+      savedConversations.forEach(c => savedConversationsRef.current.set(c.id, c));
+      if (savedConversations.length > 0) {
+        setConversations(savedConversations);
+        setActiveConversationId(savedConversations.some(c => c.id === savedActiveId)
+          ? savedActiveId!
+          : [...savedConversations].sort((a, b) => b.updatedAt - a.updatedAt)[0].id);
+      } else {
+        const initial = createConversation(DEFAULT_ANALYSIS_PARTITIONS);
+        setConversations([initial]);
+        setActiveConversationId(initial.id);
+      }
+      const savedAvatar = await getSettingFromDB<string>('user_avatar');
       if (savedAvatar) setCurrentAvatar(savedAvatar);
+      const savedName = await getSettingFromDB<string>('avatar_name');
+      if (savedName) setAvatarName(savedName);
+      const savedLayout = await getSettingFromDB<LibraryLayout>('library_layout');
+      if (savedLayout) setLibraryLayout(savedLayout);
+      const savedEntities = await getSettingFromDB<Entity[]>('entity_registry');
+      if (savedEntities) setEntities(savedEntities);
+      setIsLoaded(true);
     };
     loadData();
   }, []);
 
-  useEffect(() => { saveSourcesToDB(sources); }, [sources]);
-  useEffect(() => { localStorage.setItem('kb_partitions', JSON.stringify(partitions)); }, [partitions]);
-  useEffect(() => { localStorage.setItem('avatar_name', avatarName); }, [avatarName]);
+  // PENDING 的数据源交由导入队列处理，新上传、失败重试、重新处理与刷新后的恢复都走这一入口
+  useEffect(() => {
+    if (!isLoaded) return;
+    sources.filter(s => s.status === ProcessingStatus.PENDING).forEach(s => ingestQueue.enqueue(s.id, s.name));
+    // 已删除数据源的任务移出队列
+    const ids = new Set(sources.map(s => s.id));
+    ingestJobs.filter(j => !ids.has(j.sourceId)).forEach(j => ingestQueue.remove(j.sourceId));
+  }, [sources, isLoaded]);
+
+  // 逐条持久化有变化的数据源；正文仅在变化时写入，状态更新只写元数据
+  useEffect(() => {
+    if (!isLoaded) return;
+    const saved = savedSourcesRef.current;
+    sources.forEach(s => {
+      const prev = saved.get(s.id);
+      if (prev === s) return;
+      saved.set(s.id, s);
+      saveSourceToDB(s, !prev || prev.content !== s.content || prev.rawData !== s.rawData);
+    });
+    const current = new Set(sources.map(s => s.id));
+    Array.from(saved.keys()).filter(id => !current.has(id)).forEach(id => {
+      saved.delete(id);
+      deleteSourceFromDB(id);
+    });
+  }, [sources, isLoaded]);
+  // 仅持久化有变化的会话；流式输出期间只保存不含进行中回答的部分（用户的提问随即落盘），回答完成后再完整保存
+  useEffect(() => {
+    conversations.forEach(c => {
+      const saved = savedConversationsRef.current.get(c.id);
+      if (saved === c) return;
+      const settled = c.messages.some(m => m.isStreaming) ? { ...c, messages: c.messages.filter(m => !m.isStreaming) } : c;
+      if (settled !== c && saved && saved.messages.length === settled.messages.length && saved.messages.every((m, i) => m === settled.messages[i])) return;
+      savedConversationsRef.current.set(c.id, settled);
+      saveConversationToDB(settled);
+    });
+  }, [conversations]);
+  useEffect(() => { if (isLoaded && activeConversationId) saveSettingToDB('active_conversation', activeConversationId); }, [activeConversationId, isLoaded]);
+  useEffect(() => { if (isLoaded) savePartitionsToDB(partitions); }, [partitions, isLoaded]);
+  useEffect(() => { if (isLoaded) saveSettingToDB('avatar_name', avatarName); }, [avatarName, isLoaded]);
+  useEffect(() => { if (isLoaded) saveSettingToDB('entity_registry', entities); }, [entities, isLoaded]);
 
   useEffect(() => {
     if (scrollContainerRef.current) {
@@ -88,7 +276,7 @@ const App: React.FC = () => {
         behavior: 'smooth'
       });
     }
-  }, [chatHistory, isAnalyzing]);
+  }, [chatHistory, isAnalyzing, batchProgress]);
 
   useEffect(() => {
     if (isEditingName && nameInputRef.current) {
@@ -97,51 +285,374 @@ const App: React.FC = () => {
     }
   }, [isEditingName]);
 
+  // 页面级粘贴：剪贴板中的图片（截图）直接作为数据源入库，纯文本粘贴不受影响
+  // 上传窗口打开时由其按所选分区处理
+  useEffect(() => {
+    if (isUploadOpen) return;
+    const onPaste = (e: ClipboardEvent) => {
+      const files = imagesFromClipboard(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      processFiles(files, currentPartitionId);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [sources, currentPartitionId, isUploadOpen]);
+
+  const updateConversation = (conversationId: string, updater: (c: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => c.id === conversationId ? updater(c) : c));
+  };
+
+  // 分析范围随会话保存，切换会话即恢复该会话的分区选择
+  const setSelectedAnalysisPartitions = (updater: (prev: string[]) => string[]) => {
+    if (activeConversationId) updateConversation(activeConversationId, c => ({ ...c, partitionIds: updater(c.partitionIds) }));
+  };
+
+  const handleCreateConversation = () => {
+    const conversation = createConversation(selectedAnalysisPartitions);
+    setConversations(prev => [...prev, conversation]);
+    setActiveConversationId(conversation.id);
+  };
+
+  const handleDeleteConversation = (conversationId: string) => {
+    const remaining = conversations.filter(c => c.id !== conversationId);
+    savedConversationsRef.current.delete(conversationId);
+    deleteConversationFromDB(conversationId);
+    if (remaining.length === 0) {
+      const conversation = createConversation(selectedAnalysisPartitions);
+      setConversations([conversation]);
+      setActiveConversationId(conversation.id);
+      return;
+    }
+    setConversations(remaining);
+    if (conversationId === activeConversationId) {
+      setActiveConversationId([...remaining].sort((a, b) => b.updatedAt - a.updatedAt)[0].id);
+    }
+  };
+
+  // 知识库只展示每个文档的最新版本
+  const librarySources = useMemo(() => latestVersions(sources), [sources]);
+  const detailSource = detailGroupId ? librarySources.find(s => getVersionGroupId(s) === detailGroupId) : undefined;
+
+  // 浏览与分析范围均包含下级分区中的资料
   const filteredSources = useMemo(() => {
-    return currentPartitionId === 'all' ? sources : sources.filter(s => s.partitionId === currentPartitionId);
-  }, [sources, currentPartitionId]);
+    if (currentPartitionId === 'all') return librarySources;
+    const scope = new Set(getDescendantIds(partitions, currentPartitionId));
+    return librarySources.filter(s => scope.has(s.partitionId));
+  }, [librarySources, partitions, currentPartitionId]);
 
+  const libraryHits = useMemo(
+    () => searchSources(filteredSources, deferredFilters, librarySort),
+    [filteredSources, deferredFilters, librarySort]
+  );
+
+  // 名称与摘要命中时高亮显示，否则原样输出
+  const renderField = (text: string, snippets: SearchSnippet[], field: 'name' | 'summary') => {
+    const snippet = snippets.find(s => s.field === field);
+    return snippet ? <HighlightedText text={text} highlights={snippet.highlights} /> : text;
+  };
+
+  const changeLibraryLayout = (layout: LibraryLayout) => {
+    setLibraryLayout(layout);
+    saveSettingToDB('library_layout', layout);
+  };
+
+  const analysisScope = useMemo(() => expandPartitionScope(partitions, selectedAnalysisPartitions), [partitions, selectedAnalysisPartitions]);
+
+  // 每个文档分析最新版本，当前会话固定了版本的除外
+  const pinnedVersions = activeConversation?.pinnedVersions;
   const analysisSources = useMemo(() => {
-    return sources.filter(s => selectedAnalysisPartitions.includes(s.partitionId));
-  }, [sources, selectedAnalysisPartitions]);
+    return resolveVersions(sources, pinnedVersions).filter(s => analysisScope.has(s.partitionId));
+  }, [sources, pinnedVersions, analysisScope]);
+
+  // 删除分区及其下级分区：资料移入“未分类”或一并删除，会话的分析范围同步移除这些分区
+  const deletePartition = (partitionId: string, mode: PartitionDeleteMode) => {
+    const removed = new Set(getDescendantIds(partitions, partitionId));
+    setPartitions(prev => prev.filter(p => !removed.has(p.id)));
+    setSources(prev => mode === 'delete'
+      ? prev.filter(s => !removed.has(s.partitionId))
+      : prev.map(s => removed.has(s.partitionId) ? { ...s, partitionId: 'uncategorized' } : s));
+    setConversations(prev => prev.map(c => c.partitionIds.some(id => removed.has(id))
+      ? { ...c, partitionIds: c.partitionIds.filter(id => !removed.has(id)) }
+      : c));
+    if (removed.has(currentPartitionId)) setCurrentPartitionId('all');
+  };
+
+  // 上传前计算文件摘要并查找重复：无重复的直接入库，有重复的交由用户选择跳过、替换或保留两份
+  // versionOf 指定时作为该文档的新版本入库，不做重复检查
+  const processFiles = async (files: File[], partitionId: string, versionOf?: KnowledgeSource) => {
+    // 单个文件读取或计算摘要失败时记为导入失败的条目，不影响同批其他文件
+    const results = await Promise.all(files.map(async file => {
+      try {
+        const dataUrl = await readFileAsDataUrl(file);
+        return { file, dataUrl, contentHash: await hashBytes(base64ToBytes(dataUrl.split(',')[1] || '')) };
+      } catch (error) {
+        return { file, error: error instanceof Error ? error.message : String(error) || '文件读取失败' };
+      }
+    }));
+    const failed = results.filter((r): r is { file: File, error: string } => 'error' in r);
+    const uploads = results.filter((r): r is PendingUpload => !('error' in r));
+    if (failed.length > 0) {
+      const targetPartition = (partitionId === 'all' || !partitionId) ? 'uncategorized' : partitionId;
+      setSources(prev => [...prev, ...failed.map(({ file, error }, index) => ({
+        ...uploadPlaceholder(file, targetPartition, prev.length + index + 1, versionOf),
+        status: ProcessingStatus.ERROR,
+        summary: `读取失败：${error}`,
+        errorMessage: error,
+      }))]);
+    }
+    if (versionOf) {
+      ingestFiles(uploads, partitionId, versionOf);
+      return;
+    }
 
-  const processFiles = async (files: File[], partitionId: string) => {
+    // 同一批次中与前面文件内容相同的文件同样交由用户确认，默认跳过
+    const flagged: FlaggedUpload[] = [];
+    const clean: PendingUpload[] = [];
+    uploads.forEach(upload => {
+      const first = uploads.find(o => o.contentHash === upload.contentHash)!;
+      if (first !== upload) {
+        flagged.push({ ...upload, matches: [], batchDuplicateOf: first.file.name });
+        return;
+      }
+      try {
+        const type = detectSourceType(upload.file);
+        const text = type === SourceType.CSV || type === SourceType.TEXT ? decodeBase64Text(upload.dataUrl.split(',')[1] || '').text : undefined;
+        const table = type === SourceType.CSV && text !== undefined ? parseCsvTable(text) : undefined;
+        const matches = findDuplicates({ contentHash: upload.contentHash, text, header: table?.header, records: table?.records }, librarySources);
+        if (matches.length > 0) flagged.push({ ...upload, matches });
+        else clean.push(upload);
+      } catch (error) {
+        // 查重失败不阻止导入，解析问题交由导入队列报告
+        console.error("Duplicate check failed:", error);
+        clean.push(upload);
+      }
+    });
+    ingestFiles(clean, partitionId);
+    if (flagged.length > 0) setDuplicateReview({ uploads: flagged, partitionId });
+  };
+
+  // 替换：先删除命中的已有资料（含历史版本）再导入
+  const resolveDuplicateReview = (decisions: DuplicateDecision[]) => {
+    if (!duplicateReview) return;
+    const { uploads, partitionId } = duplicateReview;
+    const replaced = new Set(uploads.flatMap((u, i) => decisions[i] === 'replace' ? u.matches.map(m => getVersionGroupId(m.source)) : []));
+    if (replaced.size > 0) setSources(prev => prev.filter(s => !replaced.has(getVersionGroupId(s))));
+    ingestFiles(uploads.filter((_, i) => decisions[i] !== 'skip'), partitionId);
+    setDuplicateReview(null);
+  };
+
+  const uploadPlaceholder = (file: File, partitionId: string, sequenceNumber: number, versionOf?: KnowledgeSource): KnowledgeSource => ({
+    id: Math.random().toString(36).substr(2, 9),
+    partitionId,
+    sequenceNumber,
+    name: file.name,
+    type: detectSourceType(file),
+    content: "",
+    dateAdded: Date.now(),
+    status: ProcessingStatus.PENDING,
+    size: `${(file.size / 1024).toFixed(1)} KB`,
+    summary: "排队等待导入...",
+    ...(versionOf ? { ...nextVersionFields(sources, versionOf), sheetName: versionOf.sheetName } : {})
+  });
+
+  const ingestFiles = (uploads: PendingUpload[], partitionId: string, versionOf?: KnowledgeSource) => {
+    if (uploads.length === 0) return;
     const targetPartition = (partitionId === 'all' || !partitionId) ? 'uncategorized' : partitionId;
     
-    const filePlaceholders = files.map((file, index) => ({
+    const filePlaceholders: KnowledgeSource[] = uploads.map(({ file, contentHash }, index) => ({
+      ...uploadPlaceholder(file, targetPartition, sources.length + index + 1, versionOf),
+      contentHash,
+    }));
+
+    // 原始文件先写入 IndexedDB，占位条目进入 PENDING 后由导入队列读取处理
+    filePlaceholders.forEach((placeholder, index) => {
+      const { file, dataUrl } = uploads[index];
+      saveSourceFileToDB({
+        sourceId: placeholder.id,
+        dataUrl,
+        fileName: file.name,
+        mimeType: file.type || (file.name.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'text/plain'),
+      });
+    });
+    setSources(prev => [...prev, ...filePlaceholders]);
+  };
+
+  ingestRunnerRef.current = (sourceId: string) => runIngestJob(sourceId);
+
+  // 导入队列的执行函数：按数据源类型抓取网页或读取保存的原始文件解析入库，错误抛给队列决定是否重试
+  const runIngestJob = async (sourceId: string) => {
+    const source = sourcesRef.current.find(s => s.id === sourceId);
+    if (!source) return;
+    setSources(prev => prev.map(s => s.id === sourceId ? {
+      ...s, status: ProcessingStatus.PROCESSING, errorMessage: undefined,
+      summary: source.type === SourceType.WEB ? "正在抓取网页正文与表格..." : "正在应用数据主权协议并锚定坐标..."
+    } : s));
+    if (source.type === SourceType.WEB) {
+      await ingestLink(source);
+      return;
+    }
+
+    // 早期导入的文本资料没有保存原始文件，用保留的 rawData 代替
+    const stored = await getSourceFileFromDB(sourceId);
+    const file = stored
+      || (source.rawData ? { dataUrl: `data:text/plain;base64,${source.rawData}`, fileName: source.name, mimeType: 'text/plain' } : undefined);
+    if (!file) throw new Error('原始文件未保留，请删除后重新上传');
+    const base64Data = file.dataUrl.split(',')[1];
+    if (source.type === SourceType.SPREADSHEET) {
+      await ingestWorkbook(source, base64Data, file.fileName);
+      return;
+    }
+    if (source.type === SourceType.IMAGE) {
+      await ingestImage(source, file.dataUrl);
+      return;
+    }
+    const { text, summary, encoding } = await extractTextFromDocument(base64Data, file.mimeType, file.fileName);
+    const schema = source.type === SourceType.CSV ? parseCsvTable(text).schema : undefined;
+    setSources(prev => prev.map(s => s.id === sourceId ? { 
+      ...s, content: text, summary: summary, status: ProcessingStatus.COMPLETED, schema,
+      // 原始文件只保留一份：已保存上传文件时不再另存 rawData，切换编码时从上传文件重新解码
+      ...(encoding ? { encoding } : {}),
+      ...(stored ? { rawData: undefined } : {})
+    } : s));
+    await indexSource({ ...source, content: text });
+  };
+
+  // 工作簿的每个工作表成为独立数据源：首个工作表沿用占位条目，其余追加在其后，共享 workbookId
+  // 重新处理时先移除上次生成的其余工作表
+  const ingestWorkbook = async (placeholder: KnowledgeSource, base64Data: string, fileName: string) => {
+    const allSheets = parseWorkbook(base64ToBytes(base64Data));
+    if (allSheets.length === 0) throw new Error('工作簿中没有包含数据的工作表');
+    // 作为新版本上传时只取与原版本同名的工作表（找不到时取第一个）
+    const sheets = placeholder.versionGroupId
+      ? [allSheets.find(sheet => sheet.name === placeholder.sheetName) || allSheets[0]]
+      : allSheets;
+    const sheetSources: KnowledgeSource[] = sheets.map((sheet, i) => ({
+      ...placeholder,
+      id: i === 0 ? placeholder.id : Math.random().toString(36).substr(2, 9),
+      name: sheets.length > 1 ? `${fileName} · ${sheet.name}` : fileName,
+      content: sheet.csv,
+      schema: parseCsvTable(sheet.csv).schema,
+      workbookId: placeholder.id,
+      sheetName: sheet.name,
+      status: ProcessingStatus.COMPLETED,
+      summary: `工作表「${sheet.name}」已载入${sheet.headerDepth > 1 ? `（${sheet.headerDepth} 级表头已拍平）` : ''}，正在生成摘要...`
+    }));
+    setSources(prev => prev
+      .filter(s => s.workbookId !== placeholder.id || s.id === placeholder.id)
+      .flatMap((s, _, rest) => s.id !== placeholder.id ? [s] : [
+        sheetSources[0],
+        ...sheetSources.slice(1).map((sheet, i) => ({ ...sheet, sequenceNumber: rest.length + i + 1 }))
+      ]));
+    await Promise.all(sheetSources.map(async sheet => {
+      await indexSource(sheet);
+      const summary = await summarizeContent(sheet.content, '表格');
+      setSources(prev => prev.map(s => s.id === sheet.id ? { ...s, summary } : s));
+    }));
+  };
+
+  // 图片先在本地生成缩略图，识别出的表格以 CSV 形式入库，可与 CSV 一样被查询
+  const ingestImage = async (placeholder: KnowledgeSource, dataUrl: string) => {
+    const image = await prepareImage(dataUrl);
+    setSources(prev => prev.map(s => s.id === placeholder.id ? { ...s, thumbnail: image.thumbnail, summary: "正在识别图片中的表格与文字..." } : s));
+    const { text, summary, isTable } = await extractImageContent(image.data, image.mimeType, placeholder.name);
+    const schema = isTable ? parseCsvTable(text).schema : undefined;
+    setSources(prev => prev.map(s => s.id === placeholder.id ? {
+      ...s, content: text, summary, schema, status: ProcessingStatus.COMPLETED
+    } : s));
+    await indexSource({ ...placeholder, content: text, schema });
+  };
+
+  // 导入归档：替换时恢复分身资料，导入的数据源重新建立索引
+  const importArchive = (archive: KnowledgeArchive, mode: ImportMode) => {
+    const result = applyArchive({ partitions, sources, entities }, archive, mode);
+    if (mode === 'replace') {
+      if (archive.profile.avatarName) setAvatarName(archive.profile.avatarName);
+      if (archive.profile.avatar) {
+        setCurrentAvatar(archive.profile.avatar);
+        saveSettingToDB('user_avatar', archive.profile.avatar);
+      }
+      setCurrentPartitionId('all');
+    }
+    setPartitions(result.partitions);
+    setSources(result.sources);
+    setEntities(result.entities);
+    result.files.forEach(file => saveSourceFileToDB(file));
+    result.imported.filter(s => s.status === ProcessingStatus.COMPLETED).forEach(s => indexSource(s));
+    setIsArchiveOpen(false);
+  };
+
+  // 使用用户指定的编码对原始文件重新解码，无需重新上传
+  const changeSourceEncoding = async (sourceId: string, encoding: TextEncoding) => {
+    const source = sources.find(s => s.id === sourceId);
+    if (!source) return;
+    const base64Data = source.rawData ?? (await getSourceFileFromDB(sourceId))?.dataUrl.split(',')[1];
+    if (!base64Data) return;
+    const content = decodeBase64Text(base64Data, encoding).text;
+    const schema = source.type === SourceType.CSV ? parseCsvTable(content).schema : source.schema;
+    setSources(prev => prev.map(s => s.id === sourceId ? { ...s, content, encoding, schema } : s));
+    indexSource({ ...source, content });
+  };
+
+  const updateSource = (sourceId: string, patch: Partial<KnowledgeSource>) => {
+    setSources(prev => prev.map(s => s.id === sourceId ? { ...s, ...patch } : s));
+  };
+
+  // 知识库中删除文档时连同其全部历史版本
+  const deleteSource = (sourceId: string) => {
+    const source = sources.find(s => s.id === sourceId);
+    if (!source) return;
+    const groupId = getVersionGroupId(source);
+    setSources(prev => prev.filter(s => getVersionGroupId(s) !== groupId));
+  };
+
+  // 删除单个版本；删除的是首个版本时，其余版本仍以原版本组 id 关联
+  const deleteVersion = (sourceId: string) => {
+    setSources(prev => prev.filter(s => s.id !== sourceId));
+  };
+
+  const pinVersion = (groupId: string, sourceId: string | null) => {
+    if (!activeConversationId) return;
+    updateConversation(activeConversationId, c => {
+      const { [groupId]: _, ...rest } = c.pinnedVersions || {};
+      return { ...c, pinnedVersions: sourceId ? { ...rest, [groupId]: sourceId } : rest, updatedAt: Date.now() };
+    });
+  };
+
+  const processLink = async (url: string, partitionId: string) => {
+    const targetPartition = (partitionId === 'all' || !partitionId) ? 'uncategorized' : partitionId;
+    const placeholder: KnowledgeSource = {
       id: Math.random().toString(36).substr(2, 9),
       partitionId: targetPartition,
-      sequenceNumber: sources.length + index + 1,
-      name: file.name,
-      type: file.name.toLowerCase().endsWith('.pdf') ? SourceType.PDF : file.name.endsWith('.csv') ? SourceType.CSV : SourceType.TEXT,
+      sequenceNumber: sources.length + 1,
+      name: url,
+      type: SourceType.WEB,
       content: "",
+      url,
       dateAdded: Date.now(),
-      status: ProcessingStatus.PROCESSING,
-      size: `${(file.size / 1024).toFixed(1)} KB`,
-      summary: "正在应用数据主权协议并锚定坐标..."
-    }));
+      status: ProcessingStatus.PENDING,
+      size: 'WEB',
+      summary: "排队等待抓取网页..."
+    };
 
-    setSources(prev => [...prev, ...filePlaceholders]);
+    setSources(prev => [...prev, placeholder]);
+  };
 
-    filePlaceholders.forEach(async (placeholder, index) => {
-      const file = files[index];
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const base64Data = (e.target?.result as string).split(',')[1];
-        const mimeType = file.type || (file.name.endsWith('.pdf') ? 'application/pdf' : 'text/plain');
-        try {
-          const { text, summary } = await extractTextFromDocument(base64Data, mimeType, file.name);
-          setSources(prev => prev.map(s => s.id === placeholder.id ? { 
-            ...s, content: text, summary: summary, status: ProcessingStatus.COMPLETED 
-          } : s));
-        } catch (err) {
-          setSources(prev => prev.map(s => s.id === placeholder.id ? { 
-            ...s, summary: "挂载失败，请检查文件编码", status: ProcessingStatus.ERROR 
-          } : s));
-        }
-      };
-      reader.readAsDataURL(file);
-    });
+  const ingestLink = async (placeholder: KnowledgeSource) => {
+    const page = await fetchWebPage(placeholder.url!);
+    const summary = await summarizeContent(page.text, '网页');
+    setSources(prev => prev.map(s => s.id === placeholder.id ? {
+      ...s, name: page.title, content: page.text, summary, size: `${(page.text.length / 1024).toFixed(1)} KB`, status: ProcessingStatus.COMPLETED
+    } : s));
+    await indexSource({ ...placeholder, content: page.text });
+  };
+
+  // 失败重试与重新处理：数据源回到 PENDING 由队列重新导入；工作表按所属工作簿整体处理
+  const requeueSource = (sourceId: string) => {
+    const source = sources.find(s => s.id === sourceId);
+    if (!source) return;
+    const targetId = source.workbookId && sources.some(s => s.id === source.workbookId) ? source.workbookId : source.id;
+    setSources(prev => prev.map(s => s.id === targetId ? { ...s, status: ProcessingStatus.PENDING, errorMessage: undefined, summary: "排队等待导入..." } : s));
   };
 
   const onDragEnter = (e: React.DragEvent) => {
@@ -222,23 +733,73 @@ const App: React.FC = () => {
   };
 
   const handleSendMessage = async () => {
-    if (!query.trim() || isAnalyzing) return;
+    if (!query.trim() || isAnalyzing || !activeConversationId) return;
+    // 回复写回发起时的会话，即使期间切换到其他会话
+    const conversationId = activeConversationId;
     const userMessage: ChatMessage = { id: Date.now().toString(), role: 'user', text: query, timestamp: Date.now() };
-    setChatHistory(prev => [...prev, userMessage]);
+    const replyId = (Date.now() + 1).toString();
+    const updateReply = (patch: Partial<ChatMessage>) => updateConversation(conversationId, c => ({
+      ...c, messages: c.messages.map(m => m.id === replyId ? { ...m, ...patch } : m)
+    }));
+    updateConversation(conversationId, c => ({
+      ...c,
+      title: c.messages.length === 0 && c.title === DEFAULT_CONVERSATION_TITLE ? query.trim().slice(0, 24) : c.title,
+      messages: [...c.messages, userMessage, { id: replyId, role: 'model', text: '', timestamp: Date.now(), isStreaming: true }],
+      updatedAt: Date.now()
+    }));
     setQuery('');
     setIsAnalyzing(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const streamOptions = {
+      signal: controller.signal,
+      partitions: collectScopePartitions(partitions, analysisScope),
+      entities,
+      onText: (text: string) => updateReply({ text, isThinking: false }),
+      onThinking: (isThinking: boolean) => updateReply({ isThinking })
+    };
     try {
-      const result = await analyzeData(query, chatHistory, analysisSources);
-      const aiMessage: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', text: result, timestamp: Date.now() };
-      setChatHistory(prev => [...prev, aiMessage]);
+      const result = analysisMode === 'exhaustive'
+        ? await analyzeExhaustive(query, chatHistory, analysisSources, { ...streamOptions, onProgress: setBatchProgress })
+        : await analyzeData(query, chatHistory, analysisSources, streamOptions);
+      updateReply({
+        text: result.text,
+        computations: result.computations,
+        contextReport: result.contextReport,
+        verification: verifyAnswer(result.text, analysisSources, result.computations),
+        interrupted: result.interrupted,
+        isStreaming: false,
+        isThinking: false,
+        timestamp: Date.now()
+      });
+      updateConversation(conversationId, c => ({ ...c, updatedAt: Date.now() }));
     } catch (error) {
       console.error("Analysis Failed:", error);
+      updateReply({ isStreaming: false, isThinking: false });
     } finally {
+      abortControllerRef.current = null;
+      setBatchProgress(null);
       setIsAnalyzing(false);
     }
   };
 
   const MarkdownComponents = {
+    a: ({ node, href, children, ...props }: any) => {
+      const citation = href ? parseCitationHref(href) : null;
+      if (!citation) return <a href={href} target="_blank" rel="noreferrer" {...props}>{children}</a>;
+      const source = sources.find(s => s.id === citation.sourceId);
+      return (
+        <button
+          onClick={() => setActiveCitation(citation)}
+          title={source ? `${source.name} · ${formatCitation(citation)}` : '资料已删除'}
+          className={`inline-flex items-center space-x-1 align-baseline mx-0.5 px-1.5 py-0.5 rounded-md border text-[10px] font-bold no-underline transition-colors ${source ? 'bg-amber-50 border-amber-100 text-amber-700 hover:bg-amber-100' : 'bg-slate-100 border-slate-200 text-slate-400 line-through'}`}
+        >
+          <IconFileText className="w-2.5 h-2.5 shrink-0" />
+          <span className="max-w-[8rem] truncate">{source?.name ?? '已删除'}</span>
+          <span className="font-mono">{formatCitation(citation)}</span>
+        </button>
+      );
+    },
     table: (props: any) => {
       const [tableContent, setTableContent] = useState('');
       const tableRef = useRef<HTMLTableElement>(null);
@@ -265,6 +826,18 @@ const App: React.FC = () => {
     }
   };
 
+  const componentsFor = (msg: ChatMessage) => msg.verification ? {
+    ...MarkdownComponents,
+    td: ({ node, children, ...props }: any) => {
+      const check = msg.verification!.checks.find(c => c.line === node?.position?.start.line && c.cell === Number(props['data-cell']));
+      return (
+        <td {...props} className={check ? CLAIM_STYLES[check.status].cell : undefined} title={check ? check.note || CLAIM_STYLES[check.status].label : undefined}>
+          {children}
+        </td>
+      );
+    }
+  } : MarkdownComponents;
+
   return (
     <div 
       className={`h-screen w-full bg-slate-50 flex text-slate-900 overflow-hidden relative selection:bg-blue-100 transition-all duration-500 ${isDraggingFile ? 'ring-8 ring-blue-500/10 ring-inset' : ''}`}
@@ -305,12 +878,14 @@ const App: React.FC = () => {
               <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
                 {viewMode === 'analysis' ? '分析检索范围' : '分区列表'}
               </span>
-              <button onClick={(e) => { e.stopPropagation(); const n = prompt("新分区名称:"); n && setPartitions(p => [...p, { id: Math.random().toString(36).substr(2,9), name: n.trim() }]); }} className="text-slate-400 hover:text-blue-600 p-1 hover:bg-blue-50 rounded-md transition-colors"><IconPlus className="w-4 h-4" /></button>
+              <button onClick={(e) => { e.stopPropagation(); setIsPartitionManagerOpen(true); }} title="管理分区" className="text-slate-400 hover:text-blue-600 p-1 hover:bg-blue-50 rounded-md transition-colors"><IconPlus className="w-4 h-4" /></button>
             </div>
             
             <div className="space-y-1 overflow-y-auto pr-1 flex-1 custom-scrollbar">
-              {partitions.map(p => {
-                const isActive = viewMode === 'library' ? currentPartitionId === p.id : selectedAnalysisPartitions.includes(p.id);
+              {flattenPartitionTree(partitions).map(({ partition: p, depth }) => {
+                // 上级分区已勾选时，子分区随之纳入分析范围
+                const isInherited = viewMode === 'analysis' && !selectedAnalysisPartitions.includes(p.id) && analysisScope.has(p.id);
+                const isActive = viewMode === 'library' ? currentPartitionId === p.id : analysisScope.has(p.id);
                 const isOver = dragOverPartitionId === p.id;
                 
                 return (
@@ -336,7 +911,9 @@ const App: React.FC = () => {
                       
                       const internalId = e.dataTransfer.getData('sourceId');
                       if (internalId && p.id !== 'all') {
-                        setSources(prev => prev.map(s => s.id === internalId ? { ...s, partitionId: p.id } : s));
+                        const moved = sources.find(s => s.id === internalId);
+                        const groupId = moved ? getVersionGroupId(moved) : internalId;
+                        setSources(prev => prev.map(s => getVersionGroupId(s) === groupId ? { ...s, partitionId: p.id } : s));
                         setCurrentPartitionId(p.id);
                         return;
                       }
@@ -351,10 +928,12 @@ const App: React.FC = () => {
                       e.preventDefault();
                       if (viewMode === 'library') setCurrentPartitionId(p.id);
                       else {
-                        if (p.id === 'all') return;
+                        if (p.id === 'all' || isInherited) return;
                         setSelectedAnalysisPartitions(prev => prev.includes(p.id) ? prev.filter(i => i !== p.id) : [...prev, p.id]);
                       }
                     }}
+                    title={isInherited ? '已随上级分区纳入分析范围' : p.description}
+                    style={depth > 0 ? { paddingLeft: 12 + depth * 16 } : undefined}
                     className={`group/part flex items-center space-x-3 px-3 py-2.5 rounded-xl text-sm cursor-pointer border-2 transition-all duration-200 relative ${
                       isOver 
                         ? 'border-blue-500 bg-blue-50 scale-105 z-20 shadow-xl ring-4 ring-blue-500/10' 
@@ -369,8 +948,8 @@ const App: React.FC = () => {
                       <div className="absolute -left-2 top-0 bottom-0 w-1.5 bg-blue-600 rounded-full animate-pulse shadow-[0_0_10px_rgba(37,99,235,0.5)]" />
                     )}
                     {viewMode === 'analysis' && p.id !== 'all' ? (
-                      <div className={`w-4 h-4 rounded-md border-2 transition-colors ${selectedAnalysisPartitions.includes(p.id) ? 'bg-blue-600 border-blue-600' : 'border-slate-300'}`}>
-                        {selectedAnalysisPartitions.includes(p.id) && <IconCheck className="w-3 h-3 text-white m-auto" />}
+                      <div className={`w-4 h-4 rounded-md border-2 transition-colors ${selectedAnalysisPartitions.includes(p.id) ? 'bg-blue-600 border-blue-600' : isInherited ? 'bg-blue-200 border-blue-200' : 'border-slate-300'}`}>
+                        {analysisScope.has(p.id) && <IconCheck className="w-3 h-3 text-white m-auto" />}
                       </div>
                     ) : (
                       <IconFolder className={`w-4 h-4 ${isActive ? 'text-blue-500' : 'text-slate-400'}`} />
@@ -414,8 +993,11 @@ const App: React.FC = () => {
                   </svg>
                 </p>
               )}
-              <p className="text-[10px] text-blue-600 font-medium">Gemini 3 Pro Engine</p>
+              <p className="text-[10px] text-blue-600 font-medium truncate">{settings.tasks.analysis.model}</p>
             </div>
+            <button onClick={() => setIsSettingsOpen(true)} title="设置" className="text-slate-300 hover:text-blue-600 p-1 transition-colors shrink-0">
+              <IconSettings className="w-4 h-4" />
+            </button>
           </div>
         </div>
       </aside>
@@ -425,10 +1007,24 @@ const App: React.FC = () => {
           <div className="flex-1 overflow-y-auto p-8 relative">
             <header className="flex justify-between items-end mb-10">
               <div>
-                <nav className="flex items-center space-x-2 text-xs text-slate-400 mb-1"><span>知识库</span><span>/</span><span className="text-slate-600 font-bold">{partitions.find(p => p.id === currentPartitionId)?.name}</span></nav>
+                <nav className="flex items-center space-x-2 text-xs text-slate-400 mb-1">
+                  <span>知识库</span>
+                  {getPartitionPath(partitions, currentPartitionId).map((p, i, path) => (
+                    <React.Fragment key={p.id}>
+                      <span>/</span>
+                      {i === path.length - 1
+                        ? <span className="text-slate-600 font-bold">{p.name}</span>
+                        : <button onClick={() => setCurrentPartitionId(p.id)} className="hover:text-blue-600 transition-colors">{p.name}</button>}
+                    </React.Fragment>
+                  ))}
+                </nav>
                 <h1 className="text-3xl font-extrabold text-slate-900 tracking-tight">资料中心</h1>
               </div>
-              <button onClick={() => setIsUploadOpen(true)} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-2xl text-sm font-bold flex items-center space-x-2 shadow-xl shadow-blue-100 transition-all active:scale-95"><IconPlus className="w-4 h-4" /><span>导入资料</span></button>
+              <div className="flex items-center space-x-3">
+                <button onClick={() => setIsEntityRegistryOpen(true)} className="bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-5 py-2.5 rounded-2xl text-sm font-bold flex items-center space-x-2 transition-all active:scale-95"><IconSparkles className="w-4 h-4" /><span>实体注册表{entities.length > 0 && ` · ${entities.length}`}</span></button>
+                <button onClick={() => setIsArchiveOpen(true)} className="bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-5 py-2.5 rounded-2xl text-sm font-bold flex items-center space-x-2 transition-all active:scale-95"><IconDatabase className="w-4 h-4" /><span>备份与迁移</span></button>
+                <button onClick={() => setIsUploadOpen(true)} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-2xl text-sm font-bold flex items-center space-x-2 shadow-xl shadow-blue-100 transition-all active:scale-95"><IconPlus className="w-4 h-4" /><span>导入资料</span></button>
+              </div>
             </header>
 
             {(isDraggingFile || isDraggingInternal) && !dragOverPartitionId && (
@@ -437,29 +1033,114 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {filteredSources.length > 0 && (
+              <LibraryToolbar
+                filters={libraryFilters}
+                onFiltersChange={setLibraryFilters}
+                sort={librarySort}
+                onSortChange={setLibrarySort}
+                layout={libraryLayout}
+                onLayoutChange={changeLibraryLayout}
+                resultCount={libraryHits.length}
+                totalCount={filteredSources.length}
+              />
+            )}
+
             {filteredSources.length === 0 ? (
               <div className="h-[60vh] flex flex-col items-center justify-center text-slate-300 border-2 border-dashed border-slate-100 rounded-[32px] bg-slate-50/50">
                 <div className="w-20 h-20 bg-white rounded-3xl shadow-sm flex items-center justify-center mb-6"><IconFileText className="w-10 h-10 text-slate-200" /></div>
                 <p className="text-sm font-bold">暂无内容，请导入资料或直接拖拽文件</p>
                 <p className="text-xs mt-2 text-blue-500 font-medium">已启用「数据主权协议」，支持文件胶囊跨分区平滑移动</p>
               </div>
+            ) : libraryHits.length === 0 ? (
+              <div className="py-24 flex flex-col items-center justify-center text-slate-400">
+                <p className="text-sm font-bold">没有符合条件的资料</p>
+                <button onClick={() => setLibraryFilters(EMPTY_FILTERS)} className="text-xs mt-2 text-blue-600 font-bold hover:text-blue-700">清除搜索与筛选</button>
+              </div>
+            ) : libraryLayout === 'list' ? (
+              <div className="border border-slate-200 rounded-[24px] overflow-hidden mb-20">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    <tr>
+                      <th className="text-left px-5 py-3">名称</th>
+                      <th className="text-left px-3 py-3 w-20">类型</th>
+                      <th className="text-left px-3 py-3">分区</th>
+                      <th className="text-right px-3 py-3 w-24">大小</th>
+                      <th className="text-right px-3 py-3 w-28">导入日期</th>
+                      <th className="text-left px-3 py-3 w-20">状态</th>
+                      <th className="w-12" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {libraryHits.map(({ source, snippets }) => {
+                      const contentSnippet = snippets.find(s => s.field === 'content');
+                      return (
+                        <tr
+                          key={source.id}
+                          draggable="true"
+                          onDragStart={(e) => handleInternalDragStart(e, source)}
+                          onClick={() => setDetailGroupId(getVersionGroupId(source))}
+                          className="group hover:bg-slate-50/80 cursor-grab active:cursor-grabbing"
+                        >
+                          <td className="px-5 py-3 max-w-0 w-1/3">
+                            <p className="font-bold text-slate-900 truncate">{renderField(source.name, snippets, 'name')}</p>
+                            {contentSnippet && (
+                              <p className="text-[11px] text-slate-500 truncate mt-0.5"><HighlightedText text={contentSnippet.text} highlights={contentSnippet.highlights} /></p>
+                            )}
+                          </td>
+                          <td className="px-3 py-3 text-xs text-slate-500">{SOURCE_TYPE_LABELS[source.type]}</td>
+                          <td className="px-3 py-3 text-xs text-slate-500 truncate max-w-0">{getPartitionLabel(partitions, source.partitionId)}</td>
+                          <td className="px-3 py-3 text-xs text-slate-500 text-right font-mono">{source.size}</td>
+                          <td className="px-3 py-3 text-xs text-slate-500 text-right font-mono">{new Date(source.dateAdded).toLocaleDateString()}</td>
+                          <td className={`px-3 py-3 text-xs font-bold ${source.status === ProcessingStatus.ERROR ? 'text-red-500' : source.status === ProcessingStatus.COMPLETED ? 'text-emerald-600' : 'text-blue-500'}`}>{STATUS_LABELS[source.status]}</td>
+                          <td className="pr-3 py-3 text-right">
+                            <button onClick={(e) => { e.stopPropagation(); deleteSource(source.id); }} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 p-1 transition-all"><IconTrash className="w-4 h-4" /></button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 pb-20">
-                {filteredSources.map(source => (
+                {libraryHits.map(({ source, snippets }) => (
                   <div 
                     key={source.id} 
                     draggable="true"
                     onDragStart={(e) => handleInternalDragStart(e, source)}
+                    onClick={() => setDetailGroupId(getVersionGroupId(source))}
                     className="bg-white p-6 rounded-[24px] border border-slate-200 group relative hover:shadow-2xl hover:shadow-slate-200/50 transition-all hover:-translate-y-1 cursor-grab active:cursor-grabbing"
                   >
-                    <button onClick={(e) => { e.stopPropagation(); setSources(prev => prev.filter(s => s.id !== source.id)); }} className="absolute top-4 right-4 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 p-2 transition-all"><IconTrash className="w-4 h-4" /></button>
-                    <div className={`w-12 h-12 rounded-2xl flex items-center justify-center mb-5 ${source.status === ProcessingStatus.PROCESSING ? 'bg-blue-50 animate-pulse' : source.status === ProcessingStatus.ERROR ? 'bg-red-50 text-red-600' : source.type === SourceType.CSV ? 'bg-blue-50 text-blue-600' : source.type === SourceType.PDF ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
-                      {source.status === ProcessingStatus.PROCESSING ? <IconLoader className="w-6 h-6 text-blue-500" /> : <IconFileText className="w-6 h-6" />}
+                    <button onClick={(e) => { e.stopPropagation(); deleteSource(source.id); }} className="absolute top-4 right-4 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 p-2 transition-all"><IconTrash className="w-4 h-4" /></button>
+                    <div className={`w-12 h-12 rounded-2xl flex items-center justify-center mb-5 ${source.status === ProcessingStatus.PROCESSING || source.status === ProcessingStatus.PENDING ? 'bg-blue-50 animate-pulse' : source.status === ProcessingStatus.ERROR ? 'bg-red-50 text-red-600' : source.type === SourceType.CSV ? 'bg-blue-50 text-blue-600' : source.type === SourceType.SPREADSHEET ? 'bg-emerald-50 text-emerald-600' : source.type === SourceType.IMAGE ? 'bg-violet-50 text-violet-600 overflow-hidden' : source.type === SourceType.PDF ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
+                      {source.status === ProcessingStatus.PROCESSING || source.status === ProcessingStatus.PENDING ? <IconLoader className="w-6 h-6 text-blue-500" /> : source.thumbnail ? <img src={source.thumbnail} alt={source.name} className="w-full h-full object-cover" /> : <IconFileText className="w-6 h-6" />}
+                    </div>
+                    <h3 className="font-bold text-sm text-slate-900 truncate mb-1">{renderField(source.name, snippets, 'name')}</h3>
+                    <div className="flex items-center justify-between mb-4">
+                      <p className="text-[10px] text-slate-400 font-medium uppercase tracking-tighter">{source.size} • {new Date(source.dateAdded).toLocaleDateString()}{source.schema && ` • ${source.schema.rowCount} 行 × ${source.schema.columns.length} 列`}{(source.version || 1) > 1 && ` • v${source.version}`}</p>
+                      {source.encoding && (
+                        <select
+                          value={source.encoding}
+                          onChange={(e) => changeSourceEncoding(source.id, e.target.value as TextEncoding)}
+                          onClick={(e) => e.stopPropagation()}
+                          title="文件编码（乱码时可手动切换）"
+                          className="text-[10px] font-bold text-slate-500 bg-slate-50 border border-slate-200 rounded-lg px-1.5 py-0.5 outline-none hover:border-blue-300 cursor-pointer"
+                        >
+                          {SUPPORTED_ENCODINGS.map(enc => <option key={enc.id} value={enc.id}>{enc.label}</option>)}
+                        </select>
+                      )}
                     </div>
-                    <h3 className="font-bold text-sm text-slate-900 truncate mb-1">{source.name}</h3>
-                    <p className="text-[10px] text-slate-400 font-medium mb-4 uppercase tracking-tighter">{source.size} • {new Date(source.dateAdded).toLocaleDateString()}</p>
                     <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100 min-h-[80px]">
-                      <p className="text-[11px] text-slate-600 line-clamp-4 leading-relaxed font-mono">{source.summary}</p>
+                      <p className="text-[11px] text-slate-600 line-clamp-4 leading-relaxed font-mono">{renderField(source.summary || '', snippets, 'summary')}</p>
+                      {source.status === ProcessingStatus.ERROR && (
+                        <button onClick={(e) => { e.stopPropagation(); requeueSource(source.id); }} className="mt-2 text-[11px] font-bold text-blue-600 hover:text-blue-700">重试导入</button>
+                      )}
+                      {snippets.filter(s => s.field === 'content').map((snippet, i) => (
+                        <p key={i} className="text-[11px] text-slate-500 leading-relaxed mt-2 pt-2 border-t border-slate-100 break-all">
+                          <HighlightedText text={snippet.text} highlights={snippet.highlights} />
+                        </p>
+                      ))}
                     </div>
                   </div>
                 ))}
@@ -467,64 +1148,175 @@ const App: React.FC = () => {
             )}
           </div>
         ) : (
-          <div className="flex-1 flex flex-col h-full bg-slate-50/30">
-            <div className="px-8 py-4 bg-white border-b border-slate-100 flex items-center justify-between shadow-sm">
-              <div className="flex items-center space-x-3 overflow-x-auto no-scrollbar">
-                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest shrink-0">当前分析范围:</span>
-                <div className="flex space-x-1.5">
-                  {selectedAnalysisPartitions.length === 0 ? (
-                    <span className="text-xs text-red-400 font-medium">请在左侧勾选分区...</span>
-                  ) : (
-                    selectedAnalysisPartitions.map(id => <span key={id} className="px-3 py-1 bg-blue-50 text-blue-700 text-[10px] rounded-full font-bold border border-blue-100 shrink-0">{partitions.find(p => p.id === id)?.name}</span>)
-                  )}
+          <div className="flex-1 flex h-full overflow-hidden">
+            <ConversationList
+              conversations={conversations}
+              activeId={activeConversationId}
+              onSelect={setActiveConversationId}
+              onCreate={handleCreateConversation}
+              onRename={(id, title) => updateConversation(id, c => ({ ...c, title, updatedAt: Date.now() }))}
+              onDelete={handleDeleteConversation}
+            />
+            <div className="flex-1 flex flex-col h-full bg-slate-50/30 min-w-0">
+              <div className="px-8 py-4 bg-white border-b border-slate-100 flex items-center justify-between shadow-sm">
+                <div className="flex items-center space-x-3 overflow-x-auto no-scrollbar">
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest shrink-0">当前分析范围:</span>
+                  <div className="flex space-x-1.5">
+                    {selectedAnalysisPartitions.length === 0 ? (
+                      <span className="text-xs text-red-400 font-medium">请在左侧勾选分区...</span>
+                    ) : (
+                      selectedAnalysisPartitions.map(id => <span key={id} className="px-3 py-1 bg-blue-50 text-blue-700 text-[10px] rounded-full font-bold border border-blue-100 shrink-0">{getPartitionLabel(partitions, id)}</span>)
+                    )}
+                    {Object.entries(pinnedVersions || {}).map(([groupId, sourceId]) => {
+                      const pinned = sources.find(s => s.id === sourceId);
+                      if (!pinned) return null;
+                      return (
+                        <button
+                          key={groupId}
+                          onClick={() => pinVersion(groupId, null)}
+                          title="本会话固定分析此版本，点击恢复使用最新版本"
+                          className="px-3 py-1 bg-amber-50 text-amber-700 text-[10px] rounded-full font-bold border border-amber-100 shrink-0 hover:bg-amber-100"
+                        >
+                          {pinned.name} · v{pinned.version || 1} ×
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div className="flex items-center p-1 bg-slate-100 rounded-full shrink-0">
+                  {([['standard', '坐标检索'], ['exhaustive', '全量扫描']] as [AnalysisMode, string][]).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setAnalysisMode(mode)}
+                      disabled={isAnalyzing}
+                      title={mode === 'exhaustive' ? '分批扫描全部数据后合并结果，适合需要遍历每一行的问题' : '单次调用，超出上下文预算时按相关度检索'}
+                      className={`flex items-center space-x-1.5 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all disabled:cursor-not-allowed ${analysisMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                      {analysisMode === mode && <IconCheck className="w-3 h-3" />}
+                      <span>{label}</span>
+                    </button>
+                  ))}
                 </div>
               </div>
-              <div className="flex items-center space-x-2 bg-blue-50 px-3 py-1.5 rounded-full">
-                <IconCheck className="w-3 h-3 text-blue-600" />
-                <span className="text-[10px] font-bold text-blue-600 uppercase tracking-widest">原子化坐标检索已开启</span>
-              </div>
-            </div>
             
-            <div ref={scrollContainerRef} className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar">
-              {chatHistory.length === 0 && (
-                <div className="h-full flex flex-col items-center justify-center text-center max-w-sm mx-auto opacity-40">
-                  <div className="w-20 h-20 bg-blue-100 rounded-[32px] flex items-center justify-center mb-6 text-blue-600 animate-pulse"><IconChat className="w-10 h-10" /></div>
-                  <h2 className="text-xl font-extrabold text-slate-900 mb-2">高精度分析引擎</h2>
-                  <p className="text-xs text-slate-500 leading-relaxed">系统已实施「数据主权协议」。您可以询问任何复杂的车型销量对比、配置穿透分析，AI 将 100% 忠实于您的原始 CSV 数据，并按行号进行地毯式扫描。</p>
-                </div>
-              )}
-              {chatHistory.map((msg, i) => (
-                <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2 duration-300`}>
-                  <div className={`max-w-[85%] p-6 rounded-[28px] shadow-sm ${msg.role === 'user' ? 'bg-blue-600 text-white shadow-blue-100' : 'bg-white border border-slate-100 text-slate-800'}`}>
-                    <div className="markdown-container prose prose-sm max-w-none">
-                      <ReactMarkdown remarkPlugins={[remarkGfm]} components={MarkdownComponents}>{msg.text}</ReactMarkdown>
+              <div ref={scrollContainerRef} className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+                {chatHistory.length === 0 && (
+                  <div className="h-full flex flex-col items-center justify-center text-center max-w-sm mx-auto opacity-40">
+                    <div className="w-20 h-20 bg-blue-100 rounded-[32px] flex items-center justify-center mb-6 text-blue-600 animate-pulse"><IconChat className="w-10 h-10" /></div>
+                    <h2 className="text-xl font-extrabold text-slate-900 mb-2">高精度分析引擎</h2>
+                    <p className="text-xs text-slate-500 leading-relaxed">系统已实施「数据主权协议」。您可以询问任何复杂的车型销量对比、配置穿透分析，AI 将 100% 忠实于您的原始 CSV 数据，并按行号进行地毯式扫描。</p>
+                  </div>
+                )}
+                {chatHistory.filter(msg => !(msg.isStreaming && !msg.text && !msg.isThinking)).map((msg, i) => (
+                  <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2 duration-300`}>
+                    <div className={`max-w-[85%] p-6 rounded-[28px] shadow-sm ${msg.role === 'user' ? 'bg-blue-600 text-white shadow-blue-100' : 'bg-white border border-slate-100 text-slate-800'}`}>
+                      {msg.interrupted && (
+                        <div className="flex items-center space-x-2 mb-3 text-[10px] font-bold text-amber-600 uppercase tracking-widest">
+                          <IconStop className="w-3 h-3" />
+                          <span>已中断 · {msg.text ? '以下为中断前的部分输出' : '未产生输出'}</span>
+                        </div>
+                      )}
+                      {msg.isThinking && !msg.text && (
+                        <div className="flex items-center space-x-2 text-xs text-blue-600 font-bold animate-pulse">
+                          <IconSparkles className="w-4 h-4" />
+                          <span>正在深度思考...</span>
+                        </div>
+                      )}
+                      <div className="markdown-container prose prose-sm max-w-none">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeCellIndex]} components={componentsFor(msg)} urlTransform={markdownUrlTransform}>{msg.role === 'model' ? linkifyCitations(msg.text, sources) : msg.text}</ReactMarkdown>
+                      </div>
+                      {msg.isStreaming && msg.text && (
+                        <div className="flex items-center space-x-2 mt-2 text-[10px] text-blue-500 font-bold">
+                          <IconLoader className="w-3 h-3" />
+                          <span>{msg.isThinking ? '思考中...' : '生成中...'}</span>
+                        </div>
+                      )}
+                      {msg.computations && msg.computations.length > 0 && <ComputationLog computations={msg.computations} />}
+                      {msg.contextReport?.mode === 'retrieval' && <ContextReportView report={msg.contextReport} />}
+                      {msg.verification && msg.verification.checks.length > 0 && <VerificationBadge report={msg.verification} />}
                     </div>
                   </div>
-                </div>
-              ))}
-              {isAnalyzing && (
-                <div className="flex items-center space-x-3 text-xs text-blue-600 font-bold bg-white px-5 py-3 rounded-full shadow-sm w-fit border border-blue-50 animate-pulse">
-                  <IconLoader className="w-4 h-4" />
-                  <span>Gemini 3 Pro 执行数据主权检索中...</span>
-                </div>
-              )}
-            </div>
+                ))}
+                {isAnalyzing && batchProgress && (
+                  <BatchProgressPanel progress={batchProgress} onCancel={() => abortControllerRef.current?.abort()} />
+                )}
+                {isAnalyzing && !batchProgress && !chatHistory.some(m => m.isStreaming && (m.text || m.isThinking)) && (
+                  <div className="flex items-center space-x-3 text-xs text-blue-600 font-bold bg-white px-5 py-3 rounded-full shadow-sm w-fit border border-blue-50 animate-pulse">
+                    <IconLoader className="w-4 h-4" />
+                    <span>{settings.tasks.analysis.model} 执行数据主权检索中...</span>
+                  </div>
+                )}
+              </div>
 
-            <div className="p-8 bg-white border-t border-slate-100 relative">
-              <div className="max-w-4xl mx-auto relative group">
-                <textarea value={query} onChange={e => setQuery(e.target.value)} onKeyDown={e => (e.ctrlKey && e.key === 'Enter') && handleSendMessage()} placeholder="输入指令对数据进行坐标式检索... (Ctrl+Enter 发送)" className="w-full bg-slate-100 border-none rounded-[24px] px-8 py-5 pr-16 outline-none text-sm min-h-[64px] max-h-40 resize-none focus:ring-2 focus:ring-blue-500/10 transition-all shadow-inner" />
-                <button onClick={handleSendMessage} disabled={isAnalyzing || !query.trim()} className="absolute right-3 bottom-3 w-12 h-12 bg-blue-600 text-white rounded-[18px] shadow-xl shadow-blue-200 flex items-center justify-center transition-all active:scale-90 disabled:opacity-30 hover:bg-blue-700"><IconSend className="w-6 h-6" /></button>
+              <div className="p-8 bg-white border-t border-slate-100 relative">
+                <div className="max-w-4xl mx-auto relative group">
+                  <textarea value={query} onChange={e => setQuery(e.target.value)} onKeyDown={e => (e.ctrlKey && e.key === 'Enter') && handleSendMessage()} placeholder="输入指令对数据进行坐标式检索... (Ctrl+Enter 发送)" className="w-full bg-slate-100 border-none rounded-[24px] px-8 py-5 pr-16 outline-none text-sm min-h-[64px] max-h-40 resize-none focus:ring-2 focus:ring-blue-500/10 transition-all shadow-inner" />
+                  {isAnalyzing ? (
+                    <button onClick={() => abortControllerRef.current?.abort()} title="停止生成" className="absolute right-3 bottom-3 w-12 h-12 bg-slate-900 text-white rounded-[18px] shadow-xl shadow-slate-200 flex items-center justify-center transition-all active:scale-90 hover:bg-black"><IconStop className="w-5 h-5" /></button>
+                  ) : (
+                    <button onClick={handleSendMessage} disabled={!query.trim()} className="absolute right-3 bottom-3 w-12 h-12 bg-blue-600 text-white rounded-[18px] shadow-xl shadow-blue-200 flex items-center justify-center transition-all active:scale-90 disabled:opacity-30 hover:bg-blue-700"><IconSend className="w-6 h-6" /></button>
+                  )}
+                </div>
               </div>
             </div>
           </div>
         )}
       </main>
 
+      <IngestQueuePanel jobs={ingestJobs} onRetry={requeueSource} onClearFinished={ingestQueue.clearFinished} />
+
       <Modal isOpen={isUploadOpen} onClose={() => setIsUploadOpen(false)} title="导入文档资料">
-        <UploadManager onUpload={(files, pid) => { processFiles(files, pid); setIsUploadOpen(false); }} onLinkAdd={(u, p) => setSources(prev => [...prev, { id: Math.random().toString(36).substr(2,9), partitionId: p, sequenceNumber: prev.length+1, name: u, type: SourceType.WEB, content: "链接内容收录", dateAdded: Date.now(), status: ProcessingStatus.COMPLETED, size: 'WEB', summary: "网页链接已入库，等待深度索引" }])} partitions={partitions} currentPartitionId={currentPartitionId} />
+        <UploadManager onUpload={(files, pid) => { processFiles(files, pid); setIsUploadOpen(false); }} onLinkAdd={(u, p) => { processLink(u, p); setIsUploadOpen(false); }} partitions={partitions} currentPartitionId={currentPartitionId} />
+      </Modal>
+
+      <Modal isOpen={!!activeCitation} onClose={() => setActiveCitation(null)} title="引用溯源" wide>
+        {activeCitation && <CitationViewer source={sources.find(s => s.id === activeCitation.sourceId)} citation={activeCitation} />}
+      </Modal>
+
+      <Modal isOpen={!!detailSource} onClose={() => setDetailGroupId(null)} title="资料详情" wide>
+        {detailSource && detailGroupId && (
+          <div className="space-y-5">
+            <SourceDetailPanel
+              source={detailSource}
+              partitions={partitions}
+              onUpdate={(patch) => updateSource(detailSource.id, patch)}
+              onChangeEncoding={(encoding) => changeSourceEncoding(detailSource.id, encoding)}
+              onReprocess={() => requeueSource(detailSource.id)}
+            />
+            <VersionPanel
+              key={detailGroupId}
+              history={getVersionHistory(sources, detailGroupId)}
+              pinnedId={pinnedVersions?.[detailGroupId]}
+              conversationTitle={activeConversation?.title}
+              onPin={(sourceId) => pinVersion(detailGroupId, sourceId)}
+              onUploadVersion={(file) => processFiles([file], detailSource.partitionId, detailSource)}
+              onDeleteVersion={deleteVersion}
+            />
+          </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!duplicateReview} onClose={() => setDuplicateReview(null)} title="发现重复资料">
+        {duplicateReview && <DuplicateReview uploads={duplicateReview.uploads} partitions={partitions} onResolve={resolveDuplicateReview} />}
+      </Modal>
+
+      <Modal isOpen={isPartitionManagerOpen} onClose={() => setIsPartitionManagerOpen(false)} title="分区管理">
+        <PartitionManager partitions={partitions} sources={librarySources} onChange={setPartitions} onDelete={deletePartition} />
+      </Modal>
+
+      <Modal isOpen={isEntityRegistryOpen} onClose={() => setIsEntityRegistryOpen(false)} title="实体注册表" wide>
+        <EntityRegistryPanel entities={entities} sources={librarySources.filter(s => s.status === ProcessingStatus.COMPLETED)} onChange={setEntities} />
+      </Modal>
+
+      <Modal isOpen={isArchiveOpen} onClose={() => setIsArchiveOpen(false)} title="知识库备份与迁移">
+        <ArchivePanel partitions={partitions} sources={sources} profile={{ avatarName, avatar: currentAvatar }} entities={entities} onImport={importArchive} />
+      </Modal>
+
+      <Modal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} title="设置">
+        <SettingsPanel settings={settings} onSave={s => { saveSettings(s); setSettings(s); setIsSettingsOpen(false); }} />
       </Modal>
 
-      <Modal isOpen={isAvatarOpen} onClose={() => setIsAvatarOpen(false)} title="数字分身实验室"><AvatarGenerator currentAvatar={currentAvatar} onAvatarSet={u => { setCurrentAvatar(u); localStorage.setItem('user_avatar', u); setIsAvatarOpen(false); }} /></Modal>
+      <Modal isOpen={isAvatarOpen} onClose={() => setIsAvatarOpen(false)} title="数字分身实验室"><AvatarGenerator currentAvatar={currentAvatar} onOpenSettings={() => { setIsAvatarOpen(false); setIsSettingsOpen(true); }} onAvatarSet={u => { setCurrentAvatar(u); saveSettingToDB('user_avatar', u); setIsAvatarOpen(false); }} /></Modal>
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { Entity, KnowledgeSource, Partition } from '../types';
+import { getSourceFileFromDB } from '../services/storageService';
+import { ArchiveManifest, ArchiveProfile, exportArchive, ImportMode, KnowledgeArchive, readArchive } from '../services/archiveService';
+import { IconDownload, IconFileText, IconLoader } from './Icons';
+
+interface ArchivePanelProps {
+  partitions: Partition[];
+  sources: KnowledgeSource[];
+  profile: ArchiveProfile;
+  entities: Entity[];
+  onImport: (archive: KnowledgeArchive, mode: ImportMode) => void;
+}
+
+const MODES: { id: ImportMode, label: string, description: string }[] = [
+  { id: 'merge', label: '合并', description: '保留现有资料，同名分区合并，冲突的编号自动重新分配' },
+  { id: 'replace', label: '替换', description: '清空当前知识库，完全以归档内容为准' },
+];
+
+export const ArchivePanel: React.FC<ArchivePanelProps> = ({ partitions, sources, profile, entities, onImport }) => {
+  const [pending, setPending] = useState<(KnowledgeArchive & { manifest: ArchiveManifest, fileName: string }) | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    // 一并导出导入队列保存的上传文件，导入方可以重新处理图片、PDF 与工作簿
+    const files = (await Promise.all(sources.map(s => getSourceFileFromDB(s.id)))).filter(f => f !== undefined);
+    const data = exportArchive({ partitions, sources, profile, entities, files });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([data], { type: 'application/zip' }));
+    link.download = `知识库备份_${new Date().toISOString().slice(0, 10)}.zip`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    setIsReading(true);
+    setError(null);
+    setPending(null);
+    try {
+      const archive = readArchive(new Uint8Array(await file.arrayBuffer()));
+      setPending({ ...archive, fileName: file.name });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '归档读取失败');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-50 p-5 rounded-2xl border border-slate-100 space-y-3">
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">导出</p>
+        <p className="text-xs text-slate-600">将 {partitions.filter(p => !p.isSystem).length} 个分区、{sources.length} 份资料（含解析内容与保留的原始文件）{entities.length > 0 && `及 ${entities.length} 个实体`}打包为一个 zip 归档，可用于备份或交给同事导入。</p>
+        <button
+          onClick={handleExport}
+          disabled={sources.length === 0}
+          className="w-full flex items-center justify-center bg-slate-900 hover:bg-black text-white py-3 rounded-xl text-sm font-bold transition-all active:scale-95 disabled:opacity-40"
+        >
+          <IconDownload className="w-4 h-4 mr-2" />
+          导出知识库
+        </button>
+      </div>
+
+      <div className="bg-slate-50 p-5 rounded-2xl border border-slate-100 space-y-3">
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">导入</p>
+        <input type="file" accept=".zip" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isReading}
+          className="w-full flex items-center justify-center border-2 border-dashed border-slate-200 hover:border-blue-400 text-slate-600 py-3 rounded-xl text-sm font-bold transition-all"
+        >
+          {isReading ? <IconLoader className="w-4 h-4 mr-2 text-blue-600" /> : <IconFileText className="w-4 h-4 mr-2" />}
+          选择归档文件（.zip）
+        </button>
+        {error && <p className="text-[11px] text-red-500">{error}</p>}
+        {pending && (
+          <div className="space-y-3">
+            <p className="text-xs text-slate-600">
+              <span className="font-bold text-slate-900">{pending.fileName}</span>：格式 v{pending.manifest.version}，
+              导出于 {new Date(pending.manifest.exportedAt).toLocaleString()}，包含 {pending.partitions.filter(p => !p.isSystem).length} 个分区、{pending.sources.length} 份资料{pending.entities?.length ? `、${pending.entities.length} 个实体` : ''}。
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {MODES.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setMode(m.id)}
+                  className={`text-left px-3 py-2 rounded-xl border-2 transition-all ${mode === m.id ? 'border-blue-500 bg-blue-50' : 'border-slate-100 bg-white hover:border-slate-200'}`}
+                >
+                  <p className={`text-xs font-bold ${mode === m.id ? 'text-blue-700' : 'text-slate-700'}`}>{m.label}</p>
+                  <p className="text-[10px] text-slate-400">{m.description}</p>
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => { onImport(pending, mode); setPending(null); }}
+              className={`w-full text-white py-3 rounded-xl text-sm font-bold transition-all active:scale-95 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+            >
+              {mode === 'replace' ? '替换当前知识库' : '合并导入'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef } from 'react';
 import { IconCamera, IconMagic, IconLoader, IconCheck, IconSettings, IconSparkles, IconDownload } from './Icons';
-import { generateAvatar } from '../services/geminiService';
+import { generateAvatar } from '../services/analysisService';
+import { getGeminiApiKey, getSettings } from '../services/settingsService';
 
 interface AvatarGeneratorProps {
   onAvatarSet: (avatarUrl: string) => void;
+  onOpenSettings: () => void;
   currentAvatar: string | null;
 }
 
@@ -16,37 +18,15 @@ const STYLES = [
   { id: 'pixel', name: '8Bit 像素', prompt: 'High quality 8-bit pixel art, gaming aesthetic, vibrant, clean profile' }
 ];
 
-export const AvatarGenerator: React.FC<AvatarGeneratorProps> = ({ onAvatarSet, currentAvatar }) => {
+export const AvatarGenerator: React.FC<AvatarGeneratorProps> = ({ onAvatarSet, onOpenSettings, currentAvatar }) => {
   const [sourceImage, setSourceImage] = useState<string | null>(null);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [selectedStyle, setSelectedStyle] = useState<string>(STYLES[0].id);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [hasApiKey, setHasApiKey] = useState(false);
+  // 图像任务使用 Gemini 时需要可用的 API Key
+  const [hasApiKey, setHasApiKey] = useState(() => getSettings().tasks.image.providerId !== 'gemini' || !!getGeminiApiKey());
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    const checkKey = async () => {
-      // @ts-ignore
-      if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
-        // @ts-ignore
-        const selected = await window.aistudio.hasSelectedApiKey();
-        setHasApiKey(selected);
-      } else {
-        setHasApiKey(true);
-      }
-    };
-    checkKey();
-  }, []);
-
-  const handleOpenKey = async () => {
-    // @ts-ignore
-    if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
-      // @ts-ignore
-      await window.aistudio.openSelectKey();
-      setHasApiKey(true);
-    }
-  };
-
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
@@ -74,7 +54,7 @@ export const AvatarGenerator: React.FC<AvatarGeneratorProps> = ({ onAvatarSet, c
     } catch (e) {
       if (e instanceof Error && e.message.includes("Entity not found")) {
         setHasApiKey(false); 
-        alert("API Key 权限不足，请重新授权付费项目。");
+        alert("API Key 权限不足，请在设置中更换具有结算权限的密钥。");
       } else {
         alert("AI 生成遇到技术障碍，请稍后再试。");
       }
@@ -105,10 +85,10 @@ export const AvatarGenerator: React.FC<AvatarGeneratorProps> = ({ onAvatarSet, c
                   生成专业头像需要调用最新的 3.0 模型。请确保已选择具有结算权限的 API Key。
                 </p>
                 <button 
-                  onClick={handleOpenKey}
+                  onClick={onOpenSettings}
                   className="px-6 py-2.5 bg-amber-600 text-white rounded-xl text-sm font-bold shadow-lg shadow-amber-500/20 hover:bg-amber-700 transition-all"
                 >
-                  去授权 API Key
+                  前往设置填写 API Key
                 </button>
                 <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="mt-4 text-[10px] text-amber-600 underline">查看计费说明</a>
              </div>
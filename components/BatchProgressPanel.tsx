@@ -0,0 +1,51 @@
+import React from 'react';
+import { BatchProgress, ExhaustiveProgress } from '../types';
+import { IconCheck, IconLoader } from './Icons';
+
+interface BatchProgressPanelProps {
+  progress: ExhaustiveProgress;
+  onCancel: () => void;
+}
+
+const STATUS_DOT: Record<BatchProgress['status'], string> = {
+  pending: 'bg-slate-200',
+  running: 'bg-blue-500 animate-pulse',
+  done: 'bg-green-500',
+  error: 'bg-red-500',
+};
+
+export const BatchProgressPanel: React.FC<BatchProgressPanelProps> = ({ progress, onCancel }) => {
+  const finished = progress.batches.filter(b => b.status === 'done' || b.status === 'error').length;
+  const total = progress.batches.length;
+
+  return (
+    <div className="bg-white border border-blue-50 rounded-[24px] shadow-sm p-5 max-w-2xl animate-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3 text-xs text-blue-600 font-bold">
+          <IconLoader className="w-4 h-4" />
+          <span>{progress.phase === 'map' ? `全量扫描中 · ${finished}/${total} 批` : '正在合并各批次结果...'}</span>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-[11px] font-bold text-red-500 bg-red-50 hover:bg-red-100 px-3 py-1.5 rounded-full transition-colors"
+        >
+          取消分析
+        </button>
+      </div>
+      <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden mb-4">
+        <div className="h-full bg-blue-600 transition-all duration-500" style={{ width: `${total ? (finished / total) * 100 : 0}%` }} />
+      </div>
+      <div className="space-y-1.5 max-h-48 overflow-y-auto custom-scrollbar pr-1">
+        {progress.batches.map(b => (
+          <div key={b.index} className="flex items-center space-x-3 text-[11px]">
+            <span className={`w-2 h-2 rounded-full shrink-0 ${STATUS_DOT[b.status]}`} />
+            <span className="font-bold text-slate-500 shrink-0">#{b.index + 1}</span>
+            <span className="text-slate-600 font-mono truncate flex-1">{b.label}</span>
+            {b.status === 'done' && <IconCheck className="w-3 h-3 text-green-500 shrink-0" />}
+            {b.status === 'error' && <span className="text-red-500 truncate max-w-[40%]" title={b.error}>失败：{b.error}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Citation, KnowledgeSource } from '../types';
+import { parseCsvTable } from '../services/csvService';
+import { isCsvSource } from '../services/retrievalService';
+import { formatCitation } from '../services/citationService';
+import { IconFileText } from './Icons';
+
+interface CitationViewerProps {
+  source?: KnowledgeSource;
+  citation: Citation;
+}
+
+// 引用行上下各展示的上下文行数，每次“加载更多”扩展同样行数
+const CONTEXT_ROWS = 30;
+// 引文片段前后各展示的上下文字符数
+const CONTEXT_CHARS = 3000;
+
+export const CitationViewer: React.FC<CitationViewerProps> = ({ source, citation }) => {
+  const [extraBefore, setExtraBefore] = useState(0);
+  const [extraAfter, setExtraAfter] = useState(0);
+  const highlightRef = useRef<HTMLElement | null>(null);
+
+  const table = useMemo(
+    () => source && citation.kind === 'rows' && isCsvSource(source) ? parseCsvTable(source.content) : null,
+    [source, citation.kind]
+  );
+
+  useEffect(() => {
+    setExtraBefore(0);
+    setExtraAfter(0);
+  }, [citation]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [citation, table]);
+
+  if (!source) {
+    return <p className="text-sm text-slate-500">被引用的资料已从知识库中删除。</p>;
+  }
+
+  const header = (
+    <div className="flex items-center space-x-3 mb-4">
+      <IconFileText className="w-4 h-4 text-blue-600 shrink-0" />
+      <span className="text-sm font-bold text-slate-800 truncate">{source.name}</span>
+      <span className="px-2 py-0.5 bg-amber-50 text-amber-700 border border-amber-100 text-[10px] font-bold rounded-full shrink-0">{formatCitation(citation)}</span>
+    </div>
+  );
+
+  if (citation.kind === 'rows') {
+    if (!table) {
+      return <>{header}<p className="text-sm text-slate-500">该资料不是表格数据，无法按行号定位。</p></>;
+    }
+    const total = table.records.length;
+    if (citation.start > total) {
+      return <>{header}<p className="text-sm text-slate-500">引用的行号超出文件范围（共 {total} 行）。</p></>;
+    }
+    const from = Math.max(1, citation.start - CONTEXT_ROWS - extraBefore);
+    const to = Math.min(total, citation.end + CONTEXT_ROWS + extraAfter);
+
+    return (
+      <>
+        {header}
+        <div className="max-h-[60vh] overflow-auto rounded-xl border border-slate-100 custom-scrollbar">
+          {from > 1 && (
+            <button onClick={() => setExtraBefore(n => n + CONTEXT_ROWS)} className="w-full py-2 text-[11px] font-bold text-blue-600 hover:bg-blue-50">向上加载更多（前 {from - 1} 行未显示）</button>
+          )}
+          <table className="text-[11px] w-full">
+            <thead className="sticky top-0 bg-slate-50">
+              <tr>
+                <th className="text-left font-bold text-slate-400 px-3 py-2">Row</th>
+                {table.header.map(col => <th key={col} className="text-left font-bold text-slate-500 px-3 py-2 whitespace-nowrap">{col}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {table.records.slice(from - 1, to).map((record, i) => {
+                const row = from + i;
+                const cited = row >= citation.start && row <= citation.end;
+                return (
+                  <tr
+                    key={row}
+                    ref={row === citation.start ? (el => { highlightRef.current = el; }) : undefined}
+                    className={cited ? 'bg-amber-100/70' : 'odd:bg-white even:bg-slate-50/50'}
+                  >
+                    <td className={`px-3 py-1 font-mono ${cited ? 'text-amber-700 font-bold' : 'text-slate-400'}`}>{row}</td>
+                    {record.map((cell, j) => <td key={j} className="px-3 py-1 text-slate-700 font-mono whitespace-nowrap">{cell}</td>)}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {to < total && (
+            <button onClick={() => setExtraAfter(n => n + CONTEXT_ROWS)} className="w-full py-2 text-[11px] font-bold text-blue-600 hover:bg-blue-50">向下加载更多（后 {total - to} 行未显示）</button>
+          )}
+        </div>
+      </>
+    );
+  }
+
+  const content = source.content;
+  const start = Math.min(citation.start, content.length);
+  const end = Math.min(Math.max(citation.end, start), content.length);
+  const from = Math.max(0, start - CONTEXT_CHARS - extraBefore);
+  const to = Math.min(content.length, end + CONTEXT_CHARS + extraAfter);
+
+  return (
+    <>
+      {header}
+      <div className="max-h-[60vh] overflow-auto rounded-xl border border-slate-100 bg-slate-50 p-4 custom-scrollbar">
+        {from > 0 && (
+          <button onClick={() => setExtraBefore(n => n + CONTEXT_CHARS)} className="w-full mb-2 text-[11px] font-bold text-blue-600 hover:underline">向上加载更多</button>
+        )}
+        <p className="text-xs text-slate-600 leading-relaxed whitespace-pre-wrap break-words">
+          {content.slice(from, start)}
+          <mark ref={el => { highlightRef.current = el; }} className="bg-amber-200 text-slate-900 rounded px-0.5">{content.slice(start, end)}</mark>
+          {content.slice(end, to)}
+        </p>
+        {to < content.length && (
+          <button onClick={() => setExtraAfter(n => n + CONTEXT_CHARS)} className="w-full mt-2 text-[11px] font-bold text-blue-600 hover:underline">向下加载更多</button>
+        )}
+      </div>
+    </>
+  );
+};
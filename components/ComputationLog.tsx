@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { ComputationRecord } from '../types';
+import { IconCheck } from './Icons';
+
+interface ComputationLogProps {
+  computations: ComputationRecord[];
+}
+
+// 每条计算记录预览的最大结果行数
+const PREVIEW_ROWS = 10;
+
+const formatCell = (value: string | number) => typeof value === 'number'
+  ? Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+  : value;
+
+export const ComputationLog: React.FC<ComputationLogProps> = ({ computations }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-100">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="flex items-center space-x-2 text-[10px] font-bold text-blue-600 uppercase tracking-widest hover:text-blue-700"
+      >
+        <IconCheck className="w-3 h-3" />
+        <span>本地计算溯源 · {computations.length} 项</span>
+        <span className="text-slate-400">{isOpen ? '收起' : '展开'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          {computations.map(c => (
+            <div key={c.id} className="bg-slate-50 border border-slate-100 rounded-2xl p-4">
+              <div className="flex items-start space-x-2 mb-2">
+                <span className="px-2 py-0.5 bg-blue-600 text-white text-[10px] font-bold rounded-full shrink-0">{c.id}</span>
+                <span className="text-[11px] text-slate-600 font-mono leading-relaxed">{c.description}</span>
+              </div>
+              {c.error ? (
+                <p className="text-[11px] text-red-500 font-medium">计算失败：{c.error}</p>
+              ) : c.result && (
+                <>
+                  <p className="text-[10px] text-slate-400 font-bold mb-2">命中 {c.result.matchedRowCount} 行</p>
+                  <div className="overflow-x-auto">
+                    <table className="text-[11px] w-full">
+                      <thead>
+                        <tr>{c.result.columns.map(col => <th key={col} className="text-left font-bold text-slate-500 pr-4 pb-1">{col}</th>)}</tr>
+                      </thead>
+                      <tbody>
+                        {c.result.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                          <tr key={i}>{row.map((cell, j) => <td key={j} className="text-slate-700 pr-4 py-0.5 font-mono">{formatCell(cell)}</td>)}</tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {c.result.rows.length > PREVIEW_ROWS && (
+                    <p className="text-[10px] text-slate-400 mt-1">…共 {c.result.rows.length} 行结果</p>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
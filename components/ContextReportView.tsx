@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { ContextCoverage, ContextReport } from '../types';
+import { IconFileText } from './Icons';
+
+interface ContextReportViewProps {
+  report: ContextReport;
+}
+
+const STATUS_STYLES: Record<ContextCoverage['status'], { label: string, className: string }> = {
+  full: { label: '完整纳入', className: 'bg-green-50 text-green-700 border-green-100' },
+  partial: { label: '部分纳入', className: 'bg-amber-50 text-amber-700 border-amber-100' },
+  excluded: { label: '未纳入', className: 'bg-slate-100 text-slate-500 border-slate-200' },
+};
+
+const formatRanges = (c: ContextCoverage) => {
+  if (c.ranges.length === 0) return '—';
+  const unit = c.kind === 'rows' ? 'Row' : '字符';
+  return c.ranges.map(([start, end]) => start === end ? `${unit} ${start}` : `${unit} ${start}–${end}`).join('，');
+};
+
+export const ContextReportView: React.FC<ContextReportViewProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const counts = report.coverage.reduce((acc, c) => ({ ...acc, [c.status]: acc[c.status] + 1 }), { full: 0, partial: 0, excluded: 0 });
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-100">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="flex items-center space-x-2 text-[10px] font-bold text-amber-600 uppercase tracking-widest hover:text-amber-700"
+      >
+        <IconFileText className="w-3 h-3" />
+        <span>检索模式 · 完整 {counts.full} · 部分 {counts.partial} · 未纳入 {counts.excluded}</span>
+        <span className="text-slate-400">{isOpen ? '收起' : '展开'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {report.coverage.map(c => (
+            <div key={c.sourceId} className="flex items-start space-x-3 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2">
+              <span className={`px-2 py-0.5 text-[10px] font-bold rounded-full border shrink-0 ${STATUS_STYLES[c.status].className}`}>{STATUS_STYLES[c.status].label}</span>
+              <div className="min-w-0">
+                <p className="text-[11px] font-bold text-slate-700 truncate">{c.name}</p>
+                <p className="text-[10px] text-slate-500 font-mono leading-relaxed">
+                  {formatRanges(c)}
+                  <span className="text-slate-400">（共 {c.total} {c.kind === 'rows' ? '行' : '字符'}）</span>
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState, useMemo } from 'react';
+import { Conversation } from '../types';
+import { IconChat, IconPlus, IconTrash } from './Icons';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ConversationList: React.FC<ConversationListProps> = ({ conversations, activeId, onSelect, onCreate, onRename, onDelete }) => {
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  // 按标题与消息内容搜索，最近更新的会话在前
+  const visible = useMemo(() => {
+    const keyword = search.trim().toLowerCase();
+    return [...conversations]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .filter(c => !keyword || c.title.toLowerCase().includes(keyword) || c.messages.some(m => m.text.toLowerCase().includes(keyword)));
+  }, [conversations, search]);
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-60 border-r border-slate-100 bg-white flex flex-col shrink-0 h-full">
+      <div className="p-4 space-y-3 border-b border-slate-100">
+        <button
+          onClick={onCreate}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2.5 rounded-xl text-xs font-bold flex items-center justify-center space-x-2 shadow-lg shadow-blue-100 transition-all active:scale-95"
+        >
+          <IconPlus className="w-4 h-4" />
+          <span>新建会话</span>
+        </button>
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="搜索会话..."
+          className="w-full bg-slate-100 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-blue-500/10"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+        {visible.length === 0 && <p className="text-[11px] text-slate-400 text-center mt-6">没有匹配的会话</p>}
+        {visible.map(c => (
+          <div
+            key={c.id}
+            onClick={() => onSelect(c.id)}
+            onDoubleClick={() => { setEditingId(c.id); setDraftTitle(c.title); }}
+            className={`group/conv flex items-start space-x-2 px-3 py-2.5 rounded-xl cursor-pointer transition-all ${c.id === activeId ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            <IconChat className={`w-4 h-4 mt-0.5 shrink-0 ${c.id === activeId ? 'text-blue-500' : 'text-slate-300'}`} />
+            <div className="min-w-0 flex-1">
+              {editingId === c.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-full text-xs font-bold bg-transparent border-b border-blue-400 outline-none text-slate-900"
+                />
+              ) : (
+                <p className="text-xs font-bold truncate" title="双击重命名">{c.title}</p>
+              )}
+              <p className="text-[10px] text-slate-400 mt-0.5">{new Date(c.updatedAt).toLocaleDateString()} · {c.messages.length} 条消息</p>
+            </div>
+            <button
+              onClick={(e) => { e.stopPropagation(); if (confirm(`删除会话「${c.title}」？`)) onDelete(c.id); }}
+              className="text-slate-300 hover:text-red-500 opacity-0 group-hover/conv:opacity-100 p-0.5 transition-all shrink-0"
+            >
+              <IconTrash className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
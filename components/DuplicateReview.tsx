@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Partition } from '../types';
+import { DuplicateMatch } from '../services/duplicateService';
+import { getPartitionLabel } from '../services/partitionService';
+
+export type DuplicateDecision = 'skip' | 'replace' | 'keep';
+
+export interface FlaggedUpload {
+  file: File;
+  dataUrl: string;
+  contentHash: string;
+  matches: DuplicateMatch[];
+  batchDuplicateOf?: string; // Name of an earlier file in the same upload with identical content
+}
+
+interface DuplicateReviewProps {
+  uploads: FlaggedUpload[];
+  partitions: Partition[];
+  onResolve: (decisions: DuplicateDecision[]) => void;
+}
+
+const DECISIONS: [DuplicateDecision, string][] = [['skip', '跳过'], ['replace', '替换'], ['keep', '保留两份']];
+
+const describeMatch = (match: DuplicateMatch, partitions: Partition[]) => {
+  const where = `「${match.source.name}」（${getPartitionLabel(partitions, match.source.partitionId)}）`;
+  return match.kind === 'exact'
+    ? `与${where}内容完全相同`
+    : `与${where}表头相同，${match.sharedRows} 行数据重叠（${Math.round(match.overlap! * 100)}%）`;
+};
+
+/**
+ * 上传时发现重复资料：逐个文件选择跳过、替换已有资料或保留两份
+ */
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ uploads, partitions, onResolve }) => {
+  // 完全重复默认跳过，近似重复默认保留
+  const [decisions, setDecisions] = useState<DuplicateDecision[]>(
+    uploads.map(u => u.batchDuplicateOf || u.matches.some(m => m.kind === 'exact') ? 'skip' : 'keep')
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-slate-500">以下文件与知识库中已有资料或本次上传的其他文件重复。重复资料会使统计翻倍并占用分析预算，请确认处理方式：</p>
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+        {uploads.map((upload, i) => (
+          <div key={i} className="p-3 bg-slate-50 border border-slate-100 rounded-xl space-y-2">
+            <div className="flex items-center justify-between space-x-3">
+              <span className="text-sm font-bold text-slate-800 truncate">{upload.file.name}</span>
+              <div className="flex p-0.5 bg-white border border-slate-200 rounded-full shrink-0">
+                {/* 仅与同批文件重复时没有可替换的已有资料 */}
+                {DECISIONS.filter(([id]) => id !== 'replace' || upload.matches.length > 0).map(([id, label]) => (
+                  <button
+                    key={id}
+                    onClick={() => setDecisions(prev => prev.map((d, j) => j === i ? id : d))}
+                    className={`px-3 py-1 rounded-full text-[11px] font-bold transition-colors ${decisions[i] === id ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-900'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <ul className="space-y-0.5">
+              {upload.batchDuplicateOf && <li className="text-[11px] text-red-600">与本次上传的「{upload.batchDuplicateOf}」内容完全相同</li>}
+              {upload.matches.map((match, j) => (
+                <li key={j} className={`text-[11px] ${match.kind === 'exact' ? 'text-red-600' : 'text-amber-700'}`}>{describeMatch(match, partitions)}</li>
+              ))}
+            </ul>
+            {decisions[i] === 'replace' && <p className="text-[10px] text-slate-400">将删除上述已有资料（含历史版本），再导入此文件。</p>}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button onClick={() => onResolve(uploads.map(() => 'skip'))} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100">全部跳过</button>
+        <button onClick={() => onResolve(decisions)} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2 rounded-xl text-sm font-bold transition-all active:scale-95">确定</button>
+      </div>
+    </div>
+  );
+};
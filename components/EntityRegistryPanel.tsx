@@ -0,0 +1,136 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { Entity, KnowledgeSource } from '../types';
+import { parseCsvTable } from '../services/csvService';
+import { isCsvSource } from '../services/retrievalService';
+import { entityLabel, findRegistryConflicts, linkTableRows } from '../services/entityService';
+import { IconPlus, IconTrash } from './Icons';
+
+interface EntityRegistryPanelProps {
+  entities: Entity[];
+  sources: KnowledgeSource[];
+  onChange: (entities: Entity[]) => void;
+}
+
+const fieldClass = 'bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-xs outline-none focus:border-blue-400';
+
+const newEntity = (brand = '', model = '', trim = '', aliases: string[] = []): Entity => ({
+  id: Math.random().toString(36).substr(2, 9),
+  brand, model, trim, aliases,
+});
+
+/**
+ * 批量粘贴：每行一个实体，列之间用 Tab 或逗号分隔，依次为品牌、车型、版本，其后各列为别名
+ */
+const parseBulk = (text: string): Entity[] =>
+  text.split('\n')
+    .map(line => line.split(/\t|,|，/).map(cell => cell.trim()))
+    .filter(cells => cells.some(Boolean))
+    .map(([brand = '', model = '', trim = '', ...aliases]) => newEntity(brand, model, trim, aliases.filter(Boolean)));
+
+/**
+ * 实体注册表：维护品牌 / 车型 / 版本及其别名，表格资料中的行按精确匹配关联到实体，分析时据此生成跨文件关联视图
+ */
+export const EntityRegistryPanel: React.FC<EntityRegistryPanelProps> = ({ entities, sources, onChange }) => {
+  const [bulkText, setBulkText] = useState('');
+  const [showBulk, setShowBulk] = useState(false);
+  const deferredEntities = useDeferredValue(entities);
+
+  const setEntity = (id: string, patch: Partial<Entity>) =>
+    onChange(entities.map(e => e.id === id ? { ...e, ...patch } : e));
+
+  const conflicts = useMemo(() => findRegistryConflicts(deferredEntities), [deferredEntities]);
+
+  // 各表格资料的关联预览；注册表编辑频繁，使用延迟值避免每次输入都重新解析全部表格
+  const preview = useMemo(() => sources.filter(isCsvSource).map(source => {
+    const table = parseCsvTable(source.content);
+    const links = linkTableRows(table, deferredEntities);
+    return { source, total: table.records.length, linked: links.linked, ambiguous: links.ambiguous.length, entityCount: new Set(links.rowEntities.filter(Boolean)).size };
+  }), [sources, deferredEntities]);
+  const joinable = preview.filter(p => p.linked > 0).length;
+
+  const importBulk = () => {
+    const parsed = parseBulk(bulkText);
+    if (parsed.length === 0) return;
+    onChange([...entities, ...parsed]);
+    setBulkText('');
+    setShowBulk(false);
+  };
+
+  return (
+    <div className="space-y-5">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        登记车型的品牌、车型与版本。表格中某个单元格与「品牌 车型 版本」「车型 版本」或别名完全一致，或车型、版本分列且各自完全一致时，该行关联到此实体；
+        只忽略大小写与多余空格，不做模糊匹配，因此 702 Max 与 702 Ultra 始终是两个实体。两个及以上文件有关联行时，分析会获得按实体拼接的跨文件视图。
+      </p>
+
+      <div className="space-y-1.5">
+        <div className="grid grid-cols-[1fr_1fr_1fr_2fr_auto] gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest px-1">
+          <span>品牌</span><span>车型</span><span>版本</span><span>别名（逗号分隔）</span><span className="w-6" />
+        </div>
+        <div className="max-h-[40vh] overflow-y-auto custom-scrollbar space-y-1.5 pr-1">
+          {entities.map(entity => (
+            <div key={entity.id} className="grid grid-cols-[1fr_1fr_1fr_2fr_auto] gap-2 items-center">
+              <input value={entity.brand} onChange={(e) => setEntity(entity.id, { brand: e.target.value })} placeholder="如 小鹏" className={fieldClass} />
+              <input value={entity.model} onChange={(e) => setEntity(entity.id, { model: e.target.value })} placeholder="如 702" className={fieldClass} />
+              <input value={entity.trim} onChange={(e) => setEntity(entity.id, { trim: e.target.value })} placeholder="如 Max" className={fieldClass} />
+              <input value={entity.aliases.join(',')} onChange={(e) => setEntity(entity.id, { aliases: e.target.value.split(/[,，]/) })} placeholder="如 702Max,702 MAX版" className={fieldClass} />
+              <button onClick={() => onChange(entities.filter(e => e.id !== entity.id))} title="删除" className="p-1 text-slate-300 hover:text-red-500"><IconTrash className="w-3.5 h-3.5" /></button>
+            </div>
+          ))}
+          {entities.length === 0 && <p className="text-xs text-slate-400 text-center py-4">尚未登记任何实体。</p>}
+        </div>
+        <div className="flex items-center space-x-4 pt-1">
+          <button onClick={() => onChange([...entities, newEntity()])} className="flex items-center text-[11px] font-bold text-blue-600 hover:text-blue-700">
+            <IconPlus className="w-3 h-3 mr-1" />添加实体
+          </button>
+          <button onClick={() => setShowBulk(v => !v)} className="text-[11px] font-bold text-slate-500 hover:text-blue-600">批量粘贴</button>
+        </div>
+        {showBulk && (
+          <div className="p-3 bg-slate-50 border border-slate-100 rounded-xl space-y-2">
+            <textarea
+              value={bulkText}
+              onChange={(e) => setBulkText(e.target.value)}
+              placeholder={'每行一个实体：品牌, 车型, 版本, 别名…（可直接从表格复制）\n小鹏, 702, Max, 702Max\n小鹏, 702, Ultra'}
+              rows={4}
+              className={`w-full resize-y font-mono ${fieldClass}`}
+            />
+            <div className="flex justify-end">
+              <button onClick={importBulk} disabled={!bulkText.trim()} className="bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white px-4 py-1.5 rounded-lg text-xs font-bold">添加 {parseBulk(bulkText).length} 个实体</button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-100 rounded-xl space-y-1">
+          <p className="text-[11px] font-bold text-amber-700">以下写法对应多个实体，包含它们的行将无法关联：</p>
+          {conflicts.map(c => (
+            <p key={c.label} className="text-[11px] text-amber-700">「{c.label}」→ {c.entities.map(e => entityLabel(e) || '(空)').join('、')}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">关联预览</p>
+        {preview.length === 0 ? (
+          <p className="text-xs text-slate-400">知识库中还没有表格资料。</p>
+        ) : (
+          <div className="rounded-xl border border-slate-100 divide-y divide-slate-50">
+            {preview.map(p => (
+              <div key={p.source.id} className="flex items-center justify-between px-3 py-2 text-xs">
+                <span className="text-slate-700 truncate mr-3">{p.source.name}</span>
+                <span className="shrink-0 text-slate-400">
+                  <span className={p.linked > 0 ? 'text-emerald-600 font-bold' : ''}>{p.linked}</span> / {p.total} 行关联到 {p.entityCount} 个实体
+                  {p.ambiguous > 0 && <span className="text-amber-600 ml-1">· {p.ambiguous} 行有歧义</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-[10px] text-slate-400">
+          {joinable >= 2 ? `${joinable} 个表格资料可按实体跨文件关联。` : '至少两个表格资料有关联行时才会生成跨文件关联视图。'}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: [number, number][]; // [start, end) offsets, sorted and non-overlapping
+  className?: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlights, className }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start < cursor) return;
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-amber-200/70 text-slate-900 rounded px-0.5">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <span className={className}>{parts}</span>;
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { IngestJob, IngestJobStatus } from '../types';
+import { IconCheck, IconLoader } from './Icons';
+
+interface IngestQueuePanelProps {
+  jobs: IngestJob[];
+  onRetry: (sourceId: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<IngestJobStatus, { label: string, color: string }> = {
+  queued: { label: '排队中', color: 'text-slate-400' },
+  running: { label: '处理中', color: 'text-blue-600' },
+  waiting: { label: '等待重试', color: 'text-amber-600' },
+  done: { label: '完成', color: 'text-emerald-600' },
+  error: { label: '失败', color: 'text-red-500' },
+};
+
+// 列表排序：进行中的任务在前，已完成的在最后
+const STATUS_ORDER: IngestJobStatus[] = ['running', 'waiting', 'queued', 'error', 'done'];
+
+/**
+ * 导入队列浮层：展示排队、处理中、退避等待与失败的任务，失败任务可直接重试
+ */
+export const IngestQueuePanel: React.FC<IngestQueuePanelProps> = ({ jobs, onRetry, onClearFinished }) => {
+  const [expanded, setExpanded] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const waiting = jobs.some(j => j.status === 'waiting');
+
+  // 有任务在退避等待时每秒刷新倒计时
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  if (jobs.length === 0) return null;
+
+  const count = (status: IngestJobStatus) => jobs.filter(j => j.status === status).length;
+  const pending = count('running') + count('waiting') + count('queued');
+  const sorted = [...jobs].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[60] w-80 bg-white border border-slate-200 rounded-2xl shadow-2xl shadow-slate-200/60 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <div className="flex items-center space-x-2">
+          {pending > 0 ? <IconLoader className="w-4 h-4 text-blue-500" /> : <IconCheck className="w-4 h-4 text-emerald-500" />}
+          <span className="text-xs font-bold text-slate-800">
+            {pending > 0 ? `正在导入 · 剩余 ${pending}` : '导入完成'}
+            {count('error') > 0 && <span className="text-red-500 ml-1">· 失败 {count('error')}</span>}
+          </span>
+        </div>
+        <div className="flex items-center space-x-3">
+          {count('done') > 0 && <button onClick={onClearFinished} className="text-[11px] text-slate-400 hover:text-blue-600">清除已完成</button>}
+          <button onClick={() => setExpanded(v => !v)} className="text-[11px] font-bold text-blue-600">{expanded ? '收起' : '展开'}</button>
+        </div>
+      </div>
+      {expanded && (
+        <div className="max-h-64 overflow-y-auto custom-scrollbar divide-y divide-slate-50">
+          {sorted.map(job => (
+            <div key={job.sourceId} className="px-4 py-2">
+              <div className="flex items-center justify-between space-x-2">
+                <span className="text-xs text-slate-700 truncate">{job.label}</span>
+                <span className={`text-[10px] font-bold shrink-0 ${STATUS_STYLES[job.status].color}`}>
+                  {STATUS_STYLES[job.status].label}
+                  {job.status === 'waiting' && job.retryAt && ` ${Math.max(0, Math.ceil((job.retryAt - now) / 1000))}s`}
+                  {job.attempts > 1 && job.status !== 'done' && ` · 第 ${job.attempts} 次`}
+                </span>
+              </div>
+              {job.error && (job.status === 'waiting' || job.status === 'error') && (
+                <div className="flex items-center justify-between space-x-2 mt-0.5">
+                  <p className="text-[10px] text-slate-400 truncate" title={job.error}>{job.error}</p>
+                  {job.status === 'error' && <button onClick={() => onRetry(job.sourceId)} className="text-[10px] font-bold text-blue-600 hover:text-blue-700 shrink-0">重试</button>}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
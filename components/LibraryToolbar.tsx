@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ProcessingStatus, SourceType } from '../types';
+import { EMPTY_FILTERS, isFiltering, LibraryFilters, LibrarySort } from '../services/searchService';
+
+export type LibraryLayout = 'grid' | 'list';
+
+interface LibraryToolbarProps {
+  filters: LibraryFilters;
+  onFiltersChange: (filters: LibraryFilters) => void;
+  sort: LibrarySort;
+  onSortChange: (sort: LibrarySort) => void;
+  layout: LibraryLayout;
+  onLayoutChange: (layout: LibraryLayout) => void;
+  resultCount: number;
+  totalCount: number;
+}
+
+export const SOURCE_TYPE_LABELS: Record<SourceType, string> = {
+  [SourceType.CSV]: 'CSV',
+  [SourceType.SPREADSHEET]: 'Excel',
+  [SourceType.PDF]: 'PDF',
+  [SourceType.TEXT]: '文本',
+  [SourceType.WEB]: '网页',
+  [SourceType.IMAGE]: '图片',
+};
+
+export const STATUS_LABELS: Record<ProcessingStatus, string> = {
+  [ProcessingStatus.PENDING]: '等待中',
+  [ProcessingStatus.PROCESSING]: '处理中',
+  [ProcessingStatus.COMPLETED]: '已就绪',
+  [ProcessingStatus.ERROR]: '失败',
+};
+
+const SORT_LABELS: Record<LibrarySort, string> = {
+  relevance: '相关度',
+  dateDesc: '最新导入',
+  dateAsc: '最早导入',
+  name: '名称',
+  size: '内容大小',
+};
+
+const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const chipClass = (active: boolean) => `px-2.5 py-1 rounded-full text-[11px] font-bold border transition-colors ${
+  active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'
+}`;
+
+export const LibraryToolbar: React.FC<LibraryToolbarProps> = ({
+  filters, onFiltersChange, sort, onSortChange, layout, onLayoutChange, resultCount, totalCount
+}) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const update = (patch: Partial<LibraryFilters>) => onFiltersChange({ ...filters, ...patch });
+  const activeFilterCount = filters.types.length + filters.statuses.length + (filters.dateFrom ? 1 : 0) + (filters.dateTo ? 1 : 0);
+
+  return (
+    <div className="mb-8 space-y-3">
+      <div className="flex items-center space-x-3">
+        <div className="flex-1 relative">
+          <svg className="w-4 h-4 text-slate-400 absolute left-4 top-1/2 -translate-y-1/2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11A6 6 0 105 11a6 6 0 0012 0z" />
+          </svg>
+          <input
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="搜索名称、摘要与正文，多个关键词用空格分隔"
+            className="w-full bg-slate-100 rounded-2xl pl-11 pr-4 py-3 text-sm outline-none focus:ring-2 focus:ring-blue-500/10 focus:bg-white border border-transparent focus:border-blue-200 transition-all"
+          />
+        </div>
+        <button onClick={() => setShowFilters(s => !s)} className={`px-4 py-3 rounded-2xl text-sm font-bold border transition-colors ${showFilters || activeFilterCount > 0 ? 'bg-blue-50 border-blue-100 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
+          筛选{activeFilterCount > 0 && ` · ${activeFilterCount}`}
+        </button>
+        <select value={sort} onChange={(e) => onSortChange(e.target.value as LibrarySort)} className="bg-white border border-slate-200 rounded-2xl px-3 py-3 text-sm font-bold text-slate-600 outline-none cursor-pointer">
+          {(Object.keys(SORT_LABELS) as LibrarySort[]).map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+        </select>
+        <div className="flex p-1 bg-slate-100 rounded-2xl">
+          {([['grid', '卡片'], ['list', '列表']] as [LibraryLayout, string][]).map(([id, label]) => (
+            <button key={id} onClick={() => onLayoutChange(id)} className={`px-3 py-2 rounded-xl text-xs font-bold transition-all ${layout === id ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}>{label}</button>
+          ))}
+        </div>
+      </div>
+
+      {showFilters && (
+        <div className="bg-slate-50 border border-slate-100 rounded-2xl p-4 space-y-3">
+          <div className="flex items-center flex-wrap gap-2">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest w-12">类型</span>
+            {(Object.keys(SOURCE_TYPE_LABELS) as SourceType[]).map(t => (
+              <button key={t} onClick={() => update({ types: toggle(filters.types, t) })} className={chipClass(filters.types.includes(t))}>{SOURCE_TYPE_LABELS[t]}</button>
+            ))}
+          </div>
+          <div className="flex items-center flex-wrap gap-2">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest w-12">状态</span>
+            {(Object.keys(STATUS_LABELS) as ProcessingStatus[]).map(s => (
+              <button key={s} onClick={() => update({ statuses: toggle(filters.statuses, s) })} className={chipClass(filters.statuses.includes(s))}>{STATUS_LABELS[s]}</button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest w-12">导入</span>
+            <input type="date" value={filters.dateFrom || ''} max={filters.dateTo} onChange={(e) => update({ dateFrom: e.target.value || undefined })} className="bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none" />
+            <span>至</span>
+            <input type="date" value={filters.dateTo || ''} min={filters.dateFrom} onChange={(e) => update({ dateTo: e.target.value || undefined })} className="bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none" />
+          </div>
+        </div>
+      )}
+
+      {isFiltering(filters) && (
+        <div className="flex items-center justify-between text-xs text-slate-500 px-1">
+          <span>找到 <span className="font-bold text-slate-900">{resultCount}</span> / {totalCount} 份资料</span>
+          <button onClick={() => onFiltersChange(EMPTY_FILTERS)} className="font-bold text-blue-600 hover:text-blue-700">清除条件</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { ModalProps } from '../types';
 
-export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, title }) => {
+export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, title, wide }) => {
   const [show, setShow] = useState(isOpen);
 
   useEffect(() => {
@@ -24,7 +24,7 @@ export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, title }
       ></div>
       
       {/* Content */}
-      <div className={`relative w-full max-w-lg bg-white/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 transform transition-all duration-300 ${isOpen ? 'scale-100 translate-y-0' : 'scale-95 translate-y-4'}`}>
+      <div className={`relative w-full ${wide ? 'max-w-5xl' : 'max-w-lg'} bg-white/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 transform transition-all duration-300 ${isOpen ? 'scale-100 translate-y-0' : 'scale-95 translate-y-4'}`}>
         <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200/50">
           <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
           <button 
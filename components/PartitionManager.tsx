@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { GlossaryEntry, KnowledgeSource, Partition } from '../types';
+import { addPartition, flattenPartitionTree, getDescendantIds, isSystemPartition, movePartition } from '../services/partitionService';
+import { IconChevronDown, IconChevronUp, IconFolder, IconPlus, IconSparkles, IconTrash } from './Icons';
+
+export type PartitionDeleteMode = 'move' | 'delete';
+
+interface PartitionManagerProps {
+  partitions: Partition[];
+  sources: KnowledgeSource[];
+  onChange: (partitions: Partition[]) => void;
+  onDelete: (partitionId: string, mode: PartitionDeleteMode) => void;
+}
+
+const inputClass = 'bg-transparent rounded-lg px-2 py-1 outline-none focus:bg-white focus:ring-2 focus:ring-blue-500/10';
+const fieldClass = 'bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-xs outline-none focus:border-blue-400';
+
+const countRules = (p: Partition) => (p.instructions?.trim() ? 1 : 0) + (p.glossary?.filter(g => g.term.trim()).length || 0);
+
+/**
+ * 分区的分析说明与术语表：该分区（或其上级）纳入分析范围时注入提示词
+ */
+const PartitionRulesEditor: React.FC<{ partition: Partition, onChange: (patch: Partial<Partition>) => void }> = ({ partition, onChange }) => {
+  const glossary = partition.glossary || [];
+  const setEntry = (index: number, patch: Partial<GlossaryEntry>) =>
+    onChange({ glossary: glossary.map((g, i) => i === index ? { ...g, ...patch } : g) });
+
+  return (
+    <div className="ml-8 mb-2 p-3 bg-slate-50 border border-slate-100 rounded-xl space-y-3">
+      <div className="space-y-1">
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">分析说明</p>
+        <textarea
+          value={partition.instructions || ''}
+          onChange={(e) => onChange({ instructions: e.target.value || undefined })}
+          placeholder={'每行一条，例如：\n销量单位为辆\n同比口径按自然月计算'}
+          rows={3}
+          className={`w-full resize-y ${fieldClass}`}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">术语表</p>
+        {glossary.map((entry, i) => (
+          <div key={i} className="flex items-center space-x-2">
+            <input value={entry.term} onChange={(e) => setEntry(i, { term: e.target.value })} placeholder="术语，如 702 Max" className={`w-32 ${fieldClass}`} />
+            <input value={entry.definition} onChange={(e) => setEntry(i, { definition: e.target.value })} placeholder="含义，如 与 702 Ultra 为不同配置" className={`flex-1 ${fieldClass}`} />
+            <button onClick={() => onChange({ glossary: glossary.filter((_, j) => j !== i) })} title="删除" className="p-1 text-slate-300 hover:text-red-500"><IconTrash className="w-3.5 h-3.5" /></button>
+          </div>
+        ))}
+        <button onClick={() => onChange({ glossary: [...glossary, { term: '', definition: '' }] })} className="flex items-center text-[11px] font-bold text-blue-600 hover:text-blue-700">
+          <IconPlus className="w-3 h-3 mr-1" />添加术语
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-400">分析范围包含该分区或其子分区时，以上内容会作为分析规则提供给模型。</p>
+    </div>
+  );
+};
+
+export const PartitionManager: React.FC<PartitionManagerProps> = ({ partitions, sources, onChange, onDelete }) => {
+  const [newName, setNewName] = useState('');
+  const [childDraft, setChildDraft] = useState<{ parentId: string, name: string } | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [rulesId, setRulesId] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<Partition>) => onChange(partitions.map(p => p.id === id ? { ...p, ...patch } : p));
+  const countSources = (id: string) => {
+    const ids = new Set(getDescendantIds(partitions, id));
+    return sources.filter(s => ids.has(s.partitionId)).length;
+  };
+
+  const createTopLevel = () => {
+    if (!newName.trim()) return;
+    onChange(addPartition(partitions, newName));
+    setNewName('');
+  };
+
+  const createChild = () => {
+    if (!childDraft?.name.trim()) return;
+    onChange(addPartition(partitions, childDraft.name, childDraft.parentId));
+    setChildDraft(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && createTopLevel()}
+          placeholder="新分区名称"
+          autoFocus
+          className="flex-1 bg-slate-100 rounded-xl px-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-blue-500/10"
+        />
+        <button
+          onClick={createTopLevel}
+          disabled={!newName.trim()}
+          className="flex items-center bg-blue-600 hover:bg-blue-700 text-white px-4 py-2.5 rounded-xl text-sm font-bold transition-all active:scale-95 disabled:opacity-40"
+        >
+          <IconPlus className="w-4 h-4 mr-1" />新建
+        </button>
+      </div>
+
+      <div className="space-y-1 max-h-[55vh] overflow-y-auto custom-scrollbar pr-1">
+        {flattenPartitionTree(partitions).filter(({ partition }) => partition.id !== 'all').map(({ partition: p, depth }) => {
+          const system = isSystemPartition(p);
+          const count = countSources(p.id);
+          return (
+            <div key={p.id} style={{ marginLeft: depth * 20 }}>
+              <div className="group/row flex items-start space-x-2 px-2 py-2 rounded-xl hover:bg-slate-50">
+                <IconFolder className="w-4 h-4 mt-1.5 text-slate-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  {system ? (
+                    <p className="text-sm font-bold text-slate-700 px-2 py-1">{p.name} <span className="text-[10px] font-bold text-slate-400 bg-slate-100 rounded px-1.5 py-0.5 ml-1">系统</span></p>
+                  ) : (
+                    <input value={p.name} onChange={(e) => update(p.id, { name: e.target.value })} onBlur={(e) => !e.target.value.trim() && update(p.id, { name: '未命名分区' })} className={`w-full text-sm font-bold text-slate-800 ${inputClass}`} />
+                  )}
+                  <input
+                    value={p.description || ''}
+                    onChange={(e) => update(p.id, { description: e.target.value || undefined })}
+                    placeholder="添加描述…"
+                    className={`w-full text-[11px] text-slate-500 ${inputClass}`}
+                  />
+                </div>
+                <span className="text-[10px] text-slate-400 font-mono mt-2 shrink-0">{count} 份</span>
+                <button
+                  onClick={() => setRulesId(id => id === p.id ? null : p.id)}
+                  title="分析规则与术语"
+                  className={`flex items-center p-1 mt-1 shrink-0 transition-colors ${rulesId === p.id || countRules(p) > 0 ? 'text-blue-600' : 'text-slate-300 hover:text-blue-600'}`}
+                >
+                  <IconSparkles className="w-3.5 h-3.5" />
+                  {countRules(p) > 0 && <span className="text-[10px] font-bold ml-0.5">{countRules(p)}</span>}
+                </button>
+                {!system && (
+                  <div className="flex items-center opacity-0 group-hover/row:opacity-100 transition-opacity shrink-0 mt-1">
+                    <button onClick={() => onChange(movePartition(partitions, p.id, -1))} title="上移" className="p-1 text-slate-400 hover:text-blue-600"><IconChevronUp className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => onChange(movePartition(partitions, p.id, 1))} title="下移" className="p-1 text-slate-400 hover:text-blue-600"><IconChevronDown className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => setChildDraft({ parentId: p.id, name: '' })} title="添加子分区" className="p-1 text-slate-400 hover:text-blue-600"><IconPlus className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => setDeletingId(p.id)} title="删除" className="p-1 text-slate-400 hover:text-red-500"><IconTrash className="w-3.5 h-3.5" /></button>
+                  </div>
+                )}
+              </div>
+
+              {rulesId === p.id && <PartitionRulesEditor partition={p} onChange={(patch) => update(p.id, patch)} />}
+
+              {childDraft?.parentId === p.id && (
+                <div className="flex items-center space-x-2 ml-8 mb-2">
+                  <input
+                    value={childDraft.name}
+                    onChange={(e) => setChildDraft({ parentId: p.id, name: e.target.value })}
+                    onKeyDown={(e) => { if (e.key === 'Enter') createChild(); if (e.key === 'Escape') setChildDraft(null); }}
+                    placeholder={`「${p.name}」的子分区名称`}
+                    autoFocus
+                    className="flex-1 bg-slate-100 rounded-lg px-3 py-1.5 text-xs outline-none focus:ring-2 focus:ring-blue-500/10"
+                  />
+                  <button onClick={createChild} disabled={!childDraft.name.trim()} className="text-[11px] font-bold text-blue-600 disabled:opacity-40">添加</button>
+                  <button onClick={() => setChildDraft(null)} className="text-[11px] text-slate-400">取消</button>
+                </div>
+              )}
+
+              {deletingId === p.id && (
+                <div className="ml-8 mb-2 p-3 bg-red-50 border border-red-100 rounded-xl space-y-2">
+                  <p className="text-xs text-red-700">
+                    删除「{p.name}」{getDescendantIds(partitions, p.id).length > 1 ? '及其全部子分区' : ''}？{count > 0 ? `其中的 ${count} 份资料：` : ''}
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    {count > 0 && (
+                      <button onClick={() => { onDelete(p.id, 'move'); setDeletingId(null); }} className="text-[11px] font-bold text-slate-700 bg-white border border-slate-200 hover:border-slate-300 px-3 py-1.5 rounded-full">移至“未分类”</button>
+                    )}
+                    <button onClick={() => { onDelete(p.id, 'delete'); setDeletingId(null); }} className="text-[11px] font-bold text-white bg-red-600 hover:bg-red-700 px-3 py-1.5 rounded-full">
+                      {count > 0 ? '连同资料一起删除' : '删除分区'}
+                    </button>
+                    <button onClick={() => setDeletingId(null)} className="text-[11px] text-slate-400 px-2">取消</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { AppSettings, LlmTask, ThinkingPreset } from '../types';
+import { getProvider, getProviders } from '../services/llmProvider';
+import { createOpenAICompatibleProvider } from '../services/openaiProvider';
+import { DEFAULT_SETTINGS, LLM_TASK_LABELS, THINKING_PRESETS } from '../services/settingsService';
+import { IconCheck, IconLoader } from './Icons';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+}
+
+const TASKS: LlmTask[] = ['analysis', 'batch', 'summary', 'vision', 'image'];
+
+const inputClass = 'bg-slate-100 rounded-lg px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-blue-500/10';
+
+const Section: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-3 pt-4 first:pt-0 border-t first:border-t-0 border-slate-100">
+    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{title}</p>
+    {children}
+  </div>
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [models, setModels] = useState<Record<string, string[]>>({});
+  const [probe, setProbe] = useState<{ status: 'idle' | 'loading' | 'ok' | 'error', message?: string }>({ status: 'idle' });
+
+  const update = (patch: Partial<AppSettings>) => setDraft(d => ({ ...d, ...patch }));
+  const setTask = (task: LlmTask, patch: Partial<AppSettings['tasks'][LlmTask]>) =>
+    setDraft(d => ({ ...d, tasks: { ...d.tasks, [task]: { ...d.tasks[task], ...patch } } }));
+
+  // 用尚未保存的端点配置探测，成功后把模型列表填入候选项
+  const probeEndpoint = async () => {
+    const provider = createOpenAICompatibleProvider(() => ({ baseUrl: draft.openaiBaseUrl, apiKey: draft.openaiApiKey }));
+    setProbe({ status: 'loading' });
+    try {
+      const list = await provider.listModels!();
+      setModels(m => ({ ...m, [provider.id]: list }));
+      setProbe({ status: 'ok', message: `连接成功，发现 ${list.length} 个模型` });
+    } catch (error) {
+      setProbe({ status: 'error', message: error instanceof Error ? error.message : '连接失败' });
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto custom-scrollbar pr-1">
+      <Section title="API 密钥">
+        <input
+          type="password"
+          value={draft.geminiApiKey}
+          onChange={(e) => update({ geminiApiKey: e.target.value })}
+          placeholder={process.env.API_KEY ? '已使用构建时注入的密钥，可在此覆盖' : 'Gemini API Key'}
+          className={`w-full font-mono ${inputClass}`}
+        />
+        <p className="text-[10px] text-slate-400">密钥仅保存在本机浏览器中。</p>
+      </Section>
+
+      <Section title="任务模型">
+        {TASKS.map(task => {
+          const current = draft.tasks[task];
+          const providers = getProviders().filter(p => task !== 'image' || p.generateImage);
+          const provider = getProvider(current.providerId);
+          const options = Array.from(new Set([...(provider?.suggestedModels[task] || []), ...(models[current.providerId] || [])]));
+          return (
+            <div key={task} className="grid grid-cols-[5.5rem_1fr_1fr] gap-2 items-center">
+              <span className="text-xs font-bold text-slate-700">{LLM_TASK_LABELS[task]}</span>
+              <select
+                value={current.providerId}
+                onChange={(e) => {
+                  const next = getProvider(e.target.value);
+                  setTask(task, { providerId: e.target.value, model: next?.suggestedModels[task]?.[0] || '' });
+                }}
+                className={inputClass}
+              >
+                {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <input
+                value={current.model}
+                onChange={(e) => setTask(task, { model: e.target.value })}
+                list={`models-${task}`}
+                placeholder="模型名称"
+                className={`font-mono ${inputClass}`}
+              />
+              <datalist id={`models-${task}`}>
+                {options.map(m => <option key={m} value={m} />)}
+              </datalist>
+            </div>
+          );
+        })}
+      </Section>
+
+      <Section title="OpenAI 兼容端点（本地部署）">
+        <input
+          value={draft.openaiBaseUrl}
+          onChange={(e) => update({ openaiBaseUrl: e.target.value })}
+          placeholder="http://localhost:11434/v1"
+          className={`w-full font-mono ${inputClass}`}
+        />
+        <input
+          type="password"
+          value={draft.openaiApiKey}
+          onChange={(e) => update({ openaiApiKey: e.target.value })}
+          placeholder="API Key（本地服务通常无需填写）"
+          className={`w-full font-mono ${inputClass}`}
+        />
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={probeEndpoint}
+            disabled={probe.status === 'loading' || !draft.openaiBaseUrl.trim()}
+            className="text-[11px] font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 px-3 py-1.5 rounded-full transition-colors disabled:opacity-40"
+          >
+            检测连接
+          </button>
+          {probe.status === 'loading' && <IconLoader className="w-3.5 h-3.5 text-blue-600" />}
+          {probe.status === 'ok' && <span className="flex items-center text-[11px] text-green-600 font-bold"><IconCheck className="w-3 h-3 mr-1" />{probe.message}</span>}
+          {probe.status === 'error' && <span className="text-[11px] text-red-500 truncate" title={probe.message}>{probe.message}</span>}
+        </div>
+      </Section>
+
+      <Section title="分析参数">
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(THINKING_PRESETS) as ThinkingPreset[]).map(preset => (
+            <button
+              key={preset}
+              onClick={() => update({ thinkingPreset: preset })}
+              className={`text-left px-3 py-2 rounded-xl border-2 transition-all ${draft.thinkingPreset === preset ? 'border-blue-500 bg-blue-50' : 'border-slate-100 hover:border-slate-200'}`}
+            >
+              <p className={`text-xs font-bold ${draft.thinkingPreset === preset ? 'text-blue-700' : 'text-slate-700'}`}>{THINKING_PRESETS[preset].label}思考</p>
+              <p className="text-[10px] text-slate-400">{THINKING_PRESETS[preset].description}</p>
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center justify-between text-xs text-slate-600">
+          <span>温度 <span className="font-mono text-slate-400">{draft.temperature.toFixed(1)}</span></span>
+          <input type="range" min={0} max={1} step={0.1} value={draft.temperature} onChange={(e) => update({ temperature: Number(e.target.value) })} className="w-40" />
+        </label>
+        <label className="flex items-center justify-between text-xs text-slate-600">
+          <span>对话历史窗口（条）</span>
+          <input type="number" min={0} max={50} value={draft.historyWindow} onChange={(e) => update({ historyWindow: Math.max(0, Math.round(Number(e.target.value) || 0)) })} className={`w-24 text-right font-mono ${inputClass}`} />
+        </label>
+        <label className="flex items-center justify-between text-xs text-slate-600">
+          <span>上下文预算（万字符）</span>
+          <input type="number" min={1} step={1} value={Math.round(draft.contextBudget / 10000)} onChange={(e) => update({ contextBudget: Math.max(1, Math.round(Number(e.target.value) || 0)) * 10000 })} className={`w-24 text-right font-mono ${inputClass}`} />
+        </label>
+        <label className="flex items-center justify-between text-xs text-slate-600">
+          <span>同时导入的文件数</span>
+          <input type="number" min={1} max={8} value={draft.ingestConcurrency} onChange={(e) => update({ ingestConcurrency: Math.min(8, Math.max(1, Math.round(Number(e.target.value) || 1))) })} className={`w-24 text-right font-mono ${inputClass}`} />
+        </label>
+        <button onClick={() => setDraft(d => ({ ...DEFAULT_SETTINGS, geminiApiKey: d.geminiApiKey, openaiApiKey: d.openaiApiKey }))} className="text-[11px] text-slate-400 hover:text-blue-600 transition-colors">
+          恢复默认设置
+        </button>
+      </Section>
+
+      <button
+        onClick={() => onSave(draft)}
+        disabled={TASKS.some(t => !draft.tasks[t].model.trim())}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-xl text-sm font-bold shadow-lg shadow-blue-100 transition-all active:scale-95 disabled:opacity-40"
+      >
+        保存设置
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { KnowledgeSource, Partition, ProcessingStatus, SourceType } from '../types';
+import { parseCsvTable, parseNumeric } from '../services/csvService';
+import { isCsvSource } from '../services/retrievalService';
+import { getPartitionLabel } from '../services/partitionService';
+import { SUPPORTED_ENCODINGS, TextEncoding } from '../services/encodingService';
+import { SOURCE_TYPE_LABELS, STATUS_LABELS } from './LibraryToolbar';
+import { IconChevronDown, IconChevronUp } from './Icons';
+
+interface SourceDetailPanelProps {
+  source: KnowledgeSource;
+  partitions: Partition[];
+  onUpdate: (patch: Partial<Pick<KnowledgeSource, 'name' | 'summary'>>) => void;
+  onChangeEncoding: (encoding: TextEncoding) => void;
+  onReprocess: () => void; // Re-run ingestion from the stored original
+}
+
+// 虚拟滚动的固定行高（px）与可视区外额外渲染的行数
+const ROW_HEIGHT = 28;
+const OVERSCAN = 20;
+const VIEWPORT_HEIGHT = 480;
+// 正文视图每次渲染的字符数，“加载更多”按同样步长扩展
+const TEXT_CHUNK = 20000;
+
+type SortState = { column: number, direction: 'asc' | 'desc' } | null;
+
+const PAGE_MARKER = /\[Page_(\d+)\]\n?/g;
+
+/**
+ * 按 [Page_N] 标记切分正文；没有页码标记时整体作为一段
+ */
+const splitPages = (content: string): { page: number | null, text: string }[] => {
+  const markers = Array.from(content.matchAll(PAGE_MARKER));
+  if (markers.length === 0) return [{ page: null, text: content }];
+  const pages = markers.map((m, i) => ({
+    page: Number(m[1]),
+    text: content.slice(m.index! + m[0].length, i + 1 < markers.length ? markers[i + 1].index : content.length).trim(),
+  }));
+  const preface = content.slice(0, markers[0].index).trim();
+  return preface ? [{ page: null, text: preface }, ...pages] : pages;
+};
+
+const TableView: React.FC<{ source: KnowledgeSource }> = ({ source }) => {
+  const table = useMemo(() => parseCsvTable(source.content), [source.content]);
+  const [sort, setSort] = useState<SortState>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  // 排序只调整展示顺序，行号始终是分析中使用的 [Row_N]
+  const order = useMemo(() => {
+    const indexes = table.records.map((_, i) => i);
+    if (!sort) return indexes;
+    const numeric = ['number', 'currency'].includes(table.schema.columns[sort.column]?.type);
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return indexes.sort((a, b) => {
+      const x = table.records[a][sort.column] ?? '';
+      const y = table.records[b][sort.column] ?? '';
+      if (numeric) {
+        const nx = parseNumeric(x, table.schema.delimiter), ny = parseNumeric(y, table.schema.delimiter);
+        // 空值与无法解析的值排在最后
+        if (nx === null || ny === null) return nx === ny ? a - b : nx === null ? 1 : -1;
+        return (nx - ny) * sign || a - b;
+      }
+      return x.localeCompare(y, 'zh-CN', { numeric: true }) * sign || a - b;
+    });
+  }, [table, sort]);
+
+  useEffect(() => {
+    viewportRef.current?.scrollTo({ top: 0 });
+  }, [sort]);
+
+  const toggleSort = (column: number) => setSort(prev =>
+    prev?.column !== column ? { column, direction: 'asc' } : prev.direction === 'asc' ? { column, direction: 'desc' } : null
+  );
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(order.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  if (table.records.length === 0) {
+    return <p className="text-sm text-slate-500">表格中没有数据行。</p>;
+  }
+
+  return (
+    <div>
+      <div
+        ref={viewportRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        style={{ height: VIEWPORT_HEIGHT }}
+        className="overflow-auto rounded-xl border border-slate-100 custom-scrollbar"
+      >
+        <table className="text-[11px] table-fixed border-collapse" style={{ width: 64 + table.header.length * 160 }}>
+          <thead className="sticky top-0 z-10 bg-slate-50">
+            <tr>
+              <th className="w-16 text-left font-bold text-slate-400 px-3 py-2">Row</th>
+              {table.header.map((col, i) => (
+                <th key={i} className="w-40 text-left px-3 py-2">
+                  <button onClick={() => toggleSort(i)} title={`类型：${table.schema.columns[i]?.type || 'text'}`} className="flex items-center max-w-full font-bold text-slate-500 hover:text-blue-600">
+                    <span className="truncate">{col}</span>
+                    {sort?.column === i && (sort.direction === 'asc' ? <IconChevronUp className="w-3 h-3 ml-1 shrink-0" /> : <IconChevronDown className="w-3 h-3 ml-1 shrink-0" />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+            {order.slice(first, last).map(index => (
+              <tr key={index} style={{ height: ROW_HEIGHT }} className="odd:bg-white even:bg-slate-50/50">
+                <td className="px-3 font-mono text-slate-400">{index + 1}</td>
+                {table.header.map((_, j) => (
+                  <td key={j} title={table.records[index][j]} className="px-3 font-mono text-slate-700 truncate">{table.records[index][j]}</td>
+                ))}
+              </tr>
+            ))}
+            {last < order.length && <tr style={{ height: (order.length - last) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-2">共 {table.records.length} 行 × {table.header.length} 列；行号即分析与引用中的 [Row_N]，点击列名排序。</p>
+    </div>
+  );
+};
+
+const TextView: React.FC<{ content: string }> = ({ content }) => {
+  const pages = useMemo(() => splitPages(content), [content]);
+  const [limit, setLimit] = useState(TEXT_CHUNK);
+
+  useEffect(() => setLimit(TEXT_CHUNK), [content]);
+
+  if (!content.trim()) {
+    return <p className="text-sm text-slate-500">未提取到正文内容。</p>;
+  }
+
+  let remaining = limit;
+  const visible: { page: number | null, text: string }[] = [];
+  for (const page of pages) {
+    if (remaining <= 0) break;
+    visible.push({ ...page, text: page.text.slice(0, remaining) });
+    remaining -= page.text.length;
+  }
+
+  return (
+    <div className="max-h-[480px] overflow-auto rounded-xl border border-slate-100 bg-slate-50 p-4 custom-scrollbar space-y-4">
+      {visible.map((page, i) => (
+        <div key={i}>
+          {page.page !== null && (
+            <div className="flex items-center space-x-2 mb-2">
+              <span className="px-2 py-0.5 bg-white border border-slate-200 text-[10px] font-bold text-slate-500 rounded-full">第 {page.page} 页</span>
+              <div className="flex-1 border-t border-slate-200" />
+            </div>
+          )}
+          <p className="text-xs text-slate-600 leading-relaxed whitespace-pre-wrap break-words">{page.text}</p>
+        </div>
+      ))}
+      {limit < content.length && (
+        <button onClick={() => setLimit(n => n + TEXT_CHUNK)} className="w-full text-[11px] font-bold text-blue-600 hover:underline">加载更多（已显示 {Math.round(limit / content.length * 100)}%）</button>
+      )}
+    </div>
+  );
+};
+
+const MetaItem: React.FC<{ label: string, children: React.ReactNode }> = ({ label, children }) => (
+  <div className="min-w-0">
+    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{label}</p>
+    <div className="text-xs text-slate-700 font-medium truncate mt-0.5">{children}</div>
+  </div>
+);
+
+/**
+ * 数据源详情：元数据、名称与摘要编辑，表格资料按 [Row_N] 展示可排序的虚拟滚动表格，其余资料展示带页码的正文
+ */
+export const SourceDetailPanel: React.FC<SourceDetailPanelProps> = ({ source, partitions, onUpdate, onChangeEncoding, onReprocess }) => {
+  const [name, setName] = useState(source.name);
+  const [summary, setSummary] = useState(source.summary || '');
+
+  useEffect(() => {
+    setName(source.name);
+    setSummary(source.summary || '');
+  }, [source.id, source.name, source.summary]);
+
+  const commitName = () => {
+    if (!name.trim()) { setName(source.name); return; }
+    if (name !== source.name) onUpdate({ name: name.trim() });
+  };
+  const commitSummary = () => {
+    if (summary !== (source.summary || '')) onUpdate({ summary });
+  };
+
+  const ready = source.status === ProcessingStatus.COMPLETED;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-start space-x-4">
+        {source.thumbnail && <img src={source.thumbnail} alt={source.name} className="w-16 h-16 rounded-xl object-cover border border-slate-100 shrink-0" />}
+        <div className="flex-1 min-w-0 space-y-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="w-full text-lg font-bold text-slate-900 bg-transparent rounded-lg px-2 py-1 -ml-2 outline-none focus:bg-white focus:ring-2 focus:ring-blue-500/10"
+          />
+          <textarea
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            onBlur={commitSummary}
+            placeholder="添加摘要…"
+            rows={3}
+            className="w-full resize-y text-xs text-slate-600 leading-relaxed bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none focus:bg-white focus:border-blue-200"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-4 p-4 bg-slate-50/60 border border-slate-100 rounded-2xl">
+        <MetaItem label="类型">{SOURCE_TYPE_LABELS[source.type]}{source.sheetName && ` · ${source.sheetName}`}</MetaItem>
+        <MetaItem label="分区">{getPartitionLabel(partitions, source.partitionId)}</MetaItem>
+        <MetaItem label="大小">{source.size || '-'}</MetaItem>
+        <MetaItem label="导入时间">{new Date(source.dateAdded).toLocaleString()}</MetaItem>
+        <MetaItem label="状态">
+          <span className={source.status === ProcessingStatus.ERROR ? 'text-red-500' : ready ? 'text-emerald-600' : 'text-blue-500'}>{STATUS_LABELS[source.status]}</span>
+        </MetaItem>
+        <MetaItem label="编码">
+          {source.encoding ? (
+            <select
+              value={source.encoding}
+              onChange={(e) => onChangeEncoding(e.target.value as TextEncoding)}
+              className="text-xs font-medium text-slate-700 bg-transparent outline-none cursor-pointer"
+            >
+              {SUPPORTED_ENCODINGS.map(enc => <option key={enc.id} value={enc.id}>{enc.label}</option>)}
+            </select>
+          ) : (source.encoding || '-')}
+        </MetaItem>
+      </div>
+
+      {source.errorMessage && source.status === ProcessingStatus.ERROR && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-xl px-3 py-2">{source.errorMessage}</p>
+      )}
+      {(ready || source.status === ProcessingStatus.ERROR) && (
+        <div className="flex items-center justify-between text-[11px] text-slate-400">
+          <span>{source.type === SourceType.WEB ? '重新抓取网页并生成摘要与索引' : '使用保存的原始文件重新解析、生成摘要与索引'}{source.workbookId && '（整个工作簿）'}</span>
+          <button onClick={onReprocess} className="font-bold text-blue-600 hover:text-blue-700">{ready ? '重新处理' : '重试导入'}</button>
+        </div>
+      )}
+      {source.url && (
+        <a href={source.url} target="_blank" rel="noopener noreferrer" className="block text-xs text-blue-600 hover:underline truncate">{source.url}</a>
+      )}
+
+      {ready && (isCsvSource(source) ? <TableView source={source} /> : <TextView content={source.content} />)}
+    </div>
+  );
+};
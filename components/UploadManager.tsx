@@ -2,6 +2,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { IconFileText, IconGlobe, IconDatabase, IconPlus } from './Icons';
 import { SourceType, Partition } from '../types';
+import { imagesFromClipboard } from '../services/imageService';
+import { flattenPartitionTree, getPartitionLabel } from '../services/partitionService';
 
 interface UploadManagerProps {
   onUpload: (files: File[], partitionId: string) => void;
@@ -25,8 +27,20 @@ export const UploadManager: React.FC<UploadManagerProps> = ({ onUpload, onLinkAd
     }
   }, [currentPartitionId]);
 
+  // 窗口打开期间粘贴的截图直接上传到所选分区
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const files = imagesFromClipboard(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      onUpload(files, selectedPartition);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [onUpload, selectedPartition]);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const uploadablePartitions = partitions.filter(p => p.id !== 'all');
+  const uploadablePartitions = flattenPartitionTree(partitions).map(n => n.partition).filter(p => p.id !== 'all');
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -70,7 +84,7 @@ export const UploadManager: React.FC<UploadManagerProps> = ({ onUpload, onLinkAd
                 : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300'
               }`}
             >
-              {p.name}
+              {getPartitionLabel(partitions, p.id)}
             </button>
           ))}
         </div>
@@ -117,16 +131,16 @@ export const UploadManager: React.FC<UploadManagerProps> = ({ onUpload, onLinkAd
               multiple 
               className="hidden" 
               ref={fileInputRef}
-              accept=".csv,.pdf,.txt"
+              accept=".csv,.xlsx,.xls,.pdf,.txt,.png,.jpg,.jpeg,.webp"
               onChange={handleFileChange}
             />
             <div className={`w-14 h-14 bg-blue-100 text-blue-600 rounded-[20px] flex items-center justify-center mx-auto mb-5 transition-all shadow-inner ${isDragging ? 'scale-110 animate-pulse' : 'group-hover:scale-105'}`}>
               <IconFileText className="w-6 h-6" />
             </div>
             <p className="text-sm font-extrabold text-slate-900">
-              {isDragging ? '在此松开文件' : '点击上传或直接拖拽文件'}
+              {isDragging ? '在此松开文件' : '点击上传、拖拽文件或粘贴截图'}
             </p>
-            <p className="text-[10px] text-slate-400 mt-2 font-bold uppercase tracking-widest">支持 CSV、PDF、TXT</p>
+            <p className="text-[10px] text-slate-400 mt-2 font-bold uppercase tracking-widest">支持 CSV、Excel、PDF、TXT、图片</p>
           </div>
         ) : (
           <form onSubmit={handleUrlSubmit} className="space-y-4">
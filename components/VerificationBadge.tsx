@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { ClaimStatus, VerificationReport } from '../types';
+import { IconCheck } from './Icons';
+
+interface VerificationBadgeProps {
+  report: VerificationReport;
+}
+
+export const CLAIM_STYLES: Record<ClaimStatus, { label: string, cell: string, badge: string }> = {
+  verified: { label: '一致', cell: 'bg-green-50', badge: 'bg-green-50 text-green-700 border-green-100' },
+  mismatched: { label: '不一致', cell: 'bg-red-50 text-red-700 font-bold', badge: 'bg-red-50 text-red-600 border-red-100' },
+  unsourced: { label: '无来源', cell: 'bg-amber-50', badge: 'bg-amber-50 text-amber-700 border-amber-100' },
+};
+
+export const VerificationBadge: React.FC<VerificationBadgeProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const issues = report.checks.filter(c => c.status !== 'verified');
+  const tone = report.mismatched > 0 ? 'text-red-600 hover:text-red-700' : report.unsourced > 0 ? 'text-amber-600 hover:text-amber-700' : 'text-green-600 hover:text-green-700';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-100">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className={`flex items-center space-x-2 text-[10px] font-bold uppercase tracking-widest ${tone}`}
+      >
+        <IconCheck className="w-3 h-3" />
+        <span>数值核验 · 一致 {report.verified} · 不一致 {report.mismatched} · 无来源 {report.unsourced}</span>
+        {issues.length > 0 && <span className="text-slate-400">{isOpen ? '收起' : '展开'}</span>}
+      </button>
+
+      {isOpen && issues.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {issues.map(c => (
+            <div key={`${c.line}:${c.cell}`} className="flex items-start space-x-3 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2">
+              <span className={`px-2 py-0.5 text-[10px] font-bold rounded-full border shrink-0 ${CLAIM_STYLES[c.status].badge}`}>{CLAIM_STYLES[c.status].label}</span>
+              <div className="min-w-0">
+                <p className="text-[11px] font-bold text-slate-700 font-mono">{c.column ? `${c.column}：` : ''}{c.value}</p>
+                {c.note && <p className="text-[10px] text-slate-500">{c.note}</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { KnowledgeSource, ProcessingStatus } from '../types';
+import { isCsvSource } from '../services/retrievalService';
+import { parseCsvTable } from '../services/csvService';
+import { diffVersions, suggestKeyColumn, VersionDiff } from '../services/versionService';
+import { IconPlus, IconTrash } from './Icons';
+
+interface VersionPanelProps {
+  history: KnowledgeSource[]; // Newest first
+  pinnedId?: string;
+  conversationTitle?: string; // Pinning is disabled without an active conversation
+  onPin: (sourceId: string | null) => void;
+  onUploadVersion: (file: File) => void;
+  onDeleteVersion: (sourceId: string) => void;
+}
+
+// 差异明细每类最多展示的行数
+const MAX_DIFF_ROWS = 200;
+
+const selectClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs outline-none focus:border-blue-400';
+
+const DiffTable: React.FC<{ title: string, tone: string, columns: string[], rows: { row: number, values: Record<string, string>, changed?: string[], previous?: Record<string, string> }[] }> = ({ title, tone, columns, rows }) => {
+  if (rows.length === 0) return null;
+  return (
+    <div className="space-y-1.5">
+      <p className={`text-[11px] font-bold ${tone}`}>{title}（{rows.length}）</p>
+      <div className="max-h-60 overflow-auto rounded-xl border border-slate-100 custom-scrollbar">
+        <table className="text-[11px] w-full">
+          <thead className="sticky top-0 bg-slate-50">
+            <tr>
+              <th className="text-left font-bold text-slate-400 px-3 py-1.5">Row</th>
+              {columns.map(col => <th key={col} className="text-left font-bold text-slate-500 px-3 py-1.5 whitespace-nowrap">{col}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, MAX_DIFF_ROWS).map((r, i) => (
+              <tr key={i} className="odd:bg-white even:bg-slate-50/50">
+                <td className="px-3 py-1 font-mono text-slate-400">{r.row}</td>
+                {columns.map(col => (
+                  <td key={col} className={`px-3 py-1 font-mono whitespace-nowrap ${r.changed?.includes(col) ? 'bg-amber-100/70 text-slate-900' : 'text-slate-700'}`}>
+                    {r.changed?.includes(col) && <span className="text-slate-400 line-through mr-1">{r.previous?.[col]}</span>}
+                    {r.values[col]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > MAX_DIFF_ROWS && <p className="text-[10px] text-slate-400">仅显示前 {MAX_DIFF_ROWS} 行。</p>}
+    </div>
+  );
+};
+
+const DiffView: React.FC<{ diff: VersionDiff }> = ({ diff }) => {
+  const columns = [diff.keyColumn, ...diff.columns];
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-[11px] font-bold">
+        <span className="px-2.5 py-1 rounded-full bg-emerald-50 text-emerald-700 border border-emerald-100">新增 {diff.added.length}</span>
+        <span className="px-2.5 py-1 rounded-full bg-red-50 text-red-700 border border-red-100">删除 {diff.removed.length}</span>
+        <span className="px-2.5 py-1 rounded-full bg-amber-50 text-amber-700 border border-amber-100">变更 {diff.changed.length}</span>
+        <span className="px-2.5 py-1 rounded-full bg-slate-50 text-slate-500 border border-slate-100">未变 {diff.unchangedCount}</span>
+      </div>
+      {(diff.addedColumns.length > 0 || diff.removedColumns.length > 0) && (
+        <p className="text-[11px] text-slate-500">
+          {diff.addedColumns.length > 0 && <>新增列：{diff.addedColumns.join('、')}。</>}
+          {diff.removedColumns.length > 0 && <>删除列：{diff.removedColumns.join('、')}。</>}
+          列变化不计入行差异。
+        </p>
+      )}
+      {diff.duplicateKeys.length > 0 && (
+        <p className="text-[11px] text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-1.5">
+          主键列存在重复值（{diff.duplicateKeys.slice(0, 5).join('、')}{diff.duplicateKeys.length > 5 ? ' 等' : ''}），重复行只比较首次出现的一行。
+        </p>
+      )}
+      <DiffTable title="新增行" tone="text-emerald-700" columns={columns} rows={diff.added} />
+      <DiffTable title="删除行" tone="text-red-700" columns={columns} rows={diff.removed} />
+      <DiffTable
+        title="变更行（行号为新版本）"
+        tone="text-amber-700"
+        columns={columns}
+        rows={diff.changed.map(c => ({ row: c.afterRow, values: c.after, changed: c.changedColumns, previous: c.before }))}
+      />
+    </div>
+  );
+};
+
+/**
+ * 版本历史：上传新版本、为当前会话固定版本，以及按主键列对比两个表格版本
+ */
+export const VersionPanel: React.FC<VersionPanelProps> = ({ history, pinnedId, conversationTitle, onPin, onUploadVersion, onDeleteVersion }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [expanded, setExpanded] = useState(history.length > 1);
+  const readyTables = history.filter(s => s.status === ProcessingStatus.COMPLETED && isCsvSource(s));
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [keyColumn, setKeyColumn] = useState<string>('');
+
+  const from = readyTables.find(s => s.id === fromId);
+  const to = readyTables.find(s => s.id === toId);
+
+  // 默认对比上一版本与最新版本
+  useEffect(() => {
+    if (readyTables.length < 2) return;
+    if (!readyTables.some(s => s.id === toId)) setToId(readyTables[0].id);
+    if (!readyTables.some(s => s.id === fromId)) setFromId(readyTables[1].id);
+  }, [readyTables.map(s => s.id).join()]);
+
+  const commonColumns = useMemo(() => {
+    if (!from || !to) return [];
+    const next = parseCsvTable(to.content).header;
+    return parseCsvTable(from.content).header.filter(col => next.includes(col));
+  }, [from, to]);
+
+  useEffect(() => {
+    if (from && to && !commonColumns.includes(keyColumn)) setKeyColumn(suggestKeyColumn(from, to) || '');
+  }, [from, to, commonColumns]);
+
+  const diff = useMemo(() => {
+    if (!from || !to || from.id === to.id || !keyColumn) return null;
+    try {
+      return diffVersions(from, to, keyColumn);
+    } catch (e) {
+      return e instanceof Error ? e.message : '无法对比';
+    }
+  }, [from, to, keyColumn]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onUploadVersion(file);
+    e.target.value = '';
+  };
+
+  const latestId = history[0]?.id;
+
+  return (
+    <div className="pt-4 border-t border-slate-100 space-y-3">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setExpanded(v => !v)} className="text-[11px] font-bold text-slate-500 hover:text-slate-800">
+          版本历史 · {history.length} 个版本 <span className="text-blue-600 ml-1">{expanded ? '收起' : '展开'}</span>
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="flex items-center text-[11px] font-bold text-blue-600 hover:text-blue-700">
+          <IconPlus className="w-3 h-3 mr-1" />上传新版本
+        </button>
+        <input ref={fileInputRef} type="file" className="hidden" onChange={handleFile} />
+      </div>
+
+      {expanded && (
+        <>
+          <div className="space-y-1">
+            {history.map(s => {
+              const pinned = s.id === pinnedId;
+              const inUse = pinnedId ? pinned : s.id === latestId;
+              return (
+                <div key={s.id} className={`group/ver flex items-center space-x-3 px-3 py-2 rounded-xl border ${inUse ? 'bg-blue-50/50 border-blue-100' : 'border-transparent hover:bg-slate-50'}`}>
+                  <span className="text-[11px] font-bold font-mono text-slate-500 w-8">v{s.version || 1}</span>
+                  <span className="flex-1 text-xs text-slate-700 truncate">{s.name}</span>
+                  <span className="text-[10px] text-slate-400 font-mono shrink-0">
+                    {new Date(s.dateAdded).toLocaleDateString()}{s.schema && ` · ${s.schema.rowCount} 行`}
+                  </span>
+                  {s.id === latestId && <span className="text-[10px] font-bold text-slate-400 bg-slate-100 rounded px-1.5 py-0.5 shrink-0">最新</span>}
+                  {conversationTitle && (
+                    <button
+                      onClick={() => onPin(pinned ? null : s.id)}
+                      title={pinned ? '取消固定，恢复使用最新版本' : `在会话「${conversationTitle}」中固定分析此版本`}
+                      className={`text-[10px] font-bold px-2 py-0.5 rounded-full shrink-0 transition-colors ${pinned ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-blue-600 opacity-0 group-hover/ver:opacity-100'}`}
+                    >
+                      {pinned ? '已固定' : '固定'}
+                    </button>
+                  )}
+                  {history.length > 1 && (
+                    <button onClick={() => onDeleteVersion(s.id)} title="删除此版本" className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover/ver:opacity-100 shrink-0"><IconTrash className="w-3.5 h-3.5" /></button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-slate-400">
+            分析默认使用最新版本{conversationTitle ? `；固定的版本只对会话「${conversationTitle}」生效` : ''}。
+          </p>
+
+          {readyTables.length >= 2 && (
+            <div className="p-3 bg-slate-50 border border-slate-100 rounded-xl space-y-3">
+              <div className="flex items-center flex-wrap gap-2 text-xs text-slate-500">
+                <span className="font-bold text-slate-600">行级对比</span>
+                <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+                  {readyTables.map(s => <option key={s.id} value={s.id}>v{s.version || 1}</option>)}
+                </select>
+                <span>→</span>
+                <select value={toId} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+                  {readyTables.map(s => <option key={s.id} value={s.id}>v{s.version || 1}</option>)}
+                </select>
+                <span className="ml-2">主键列</span>
+                <select value={keyColumn} onChange={(e) => setKeyColumn(e.target.value)} className={selectClass}>
+                  {commonColumns.map(col => <option key={col} value={col}>{col}</option>)}
+                </select>
+              </div>
+              {fromId === toId && <p className="text-[11px] text-slate-400">请选择两个不同的版本。</p>}
+              {from && to && commonColumns.length === 0 && <p className="text-[11px] text-slate-400">两个版本没有共同的列，无法按行对比。</p>}
+              {typeof diff === 'string' && <p className="text-[11px] text-red-600">{diff}</p>}
+              {diff && typeof diff !== 'string' && <DiffView diff={diff} />}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App.tsx';
+import { loadSettings } from './services/settingsService';
+import { onDatabaseBlocked } from './services/storageService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +10,20 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+// 数据库升级被其他标签页的旧连接阻塞时先给出提示，对方关闭后自动继续载入
+onDatabaseBlocked(() => root.render(
+  <div className="min-h-screen flex items-center justify-center bg-slate-50 p-6">
+    <div className="max-w-sm bg-white border border-slate-200 rounded-2xl shadow-xl p-6 text-center space-y-2">
+      <p className="text-sm font-bold text-slate-900">正在升级本地数据库</p>
+      <p className="text-xs text-slate-500 leading-relaxed">请关闭其他已打开本应用的标签页，关闭后将自动继续载入。</p>
+    </div>
+  </div>
+));
+// 设置需在首次渲染前载入，各服务同步读取；载入失败时使用默认设置渲染
+loadSettings()
+  .catch(error => console.error("Failed to load settings:", error))
+  .then(() => root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  ));
@@ -0,0 +1,726 @@
+
+import { ChatMessage, ComputationRecord, ContextCoverage, ContextReport, Entity, ExhaustiveProgress, IndexChunk, KnowledgeSource, LlmMessage, LlmTool, Partition, TableQuery } from "../types.ts";
+import { extractPdfText } from "./pdfService.ts";
+import { base64ToBytes, decodeBase64Text, TextEncoding } from "./encodingService.ts";
+import { ParsedTable, parseCsvTable, stringifyCsvRow } from "./csvService.ts";
+import { describeQuery, runTableQuery } from "./queryEngine.ts";
+import { isCsvSource, loadSourceIndexes, mergeRanges, rankChunks } from "./retrievalService.ts";
+import { CITE_INSTRUCTION } from "./citationService.ts";
+import { dedupeByContent } from "./duplicateService.ts";
+import { buildEntityJoin, ENTITY_JOIN_ID } from "./entityService.ts";
+import { isRetryableError } from "./ingestQueue.ts";
+import { resolveTask } from "./llmProvider.ts";
+import { getSettings, THINKING_PRESETS } from "./settingsService.ts";
+
+// 单次分析中模型调用计算工具的最大轮数
+const MAX_TOOL_ROUNDS = 8;
+// 全量模式下每个 map 批次的字符上限
+const BATCH_CHARS = 200000;
+// 实体关联视图不超过该字符数时直接写入提示词，否则只提供列说明，由模型通过 query_table 查询
+const JOIN_INLINE_CHARS = 12000;
+
+export interface AnalysisResult {
+  text: string;
+  computations: ComputationRecord[];
+  contextReport?: ContextReport;
+  interrupted?: boolean; // Aborted by the user; text holds the partial output
+}
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ExhaustiveProgress) => void;
+  onText?: (text: string) => void; // Accumulated answer text while streaming
+  onThinking?: (isThinking: boolean) => void;
+  partitions?: Partition[]; // Partitions in scope, whose instructions and glossaries apply
+  entities?: Entity[]; // Entity registry used to join CSV sources across files
+}
+
+type StreamCallbacks = Pick<AnalysisOptions, 'signal' | 'onText' | 'onThinking'>;
+
+interface PreparedSource {
+  source: KnowledgeSource;
+  preamble: string; // Schema + header for CSV, empty for text
+  body: string;
+  kind: 'rows' | 'text';
+  total: number; // Row count or char length
+  headerLine?: string;
+  rowLines?: string[]; // [Row_N] lines without repeated headers
+}
+
+type TableMap = Map<string, { name: string, table: ParsedTable }>;
+
+const DATA_PROTOCOL = `【核心指令：数据主权协议】
+1. **文件内容是唯一的真理**：严禁根据你的训练知识质疑、修改或否定文件中的数据。如果文件中写了“小鹏G7”，那么它就是真实存在的车型，严禁说“不存在”或“可能是G6/G9”。
+2. **禁止过度脑补**：不准合并看似相似但字符不同的配置名称（如 702 Max 和 702 Ultra 必须视为独立配置）。`;
+
+/**
+ * 分区级分析规则与术语表；没有任何分区配置规则时返回空字符串，不占用提示词
+ */
+const formatPartitionRules = (partitions: Partition[] = []): string => {
+  const blocks = partitions
+    .filter(p => p.instructions?.trim() || p.glossary?.some(g => g.term.trim()))
+    .map(p => {
+      const lines = [`▸ 分区「${p.name}」`];
+      if (p.instructions?.trim()) lines.push(...p.instructions.trim().split('\n').map(l => `  - ${l.trim()}`).filter(l => l !== '  - '));
+      const terms = (p.glossary || []).filter(g => g.term.trim());
+      if (terms.length) lines.push(`  - 术语：${terms.map(g => `${g.term.trim()}${g.definition.trim() ? `＝${g.definition.trim()}` : ''}`).join('；')}`);
+      return lines.join('\n');
+    });
+  if (blocks.length === 0) return "";
+  return `\n\n【分区分析规则与术语（用户设定，优先级高于通用习惯）】\n${blocks.join('\n')}`;
+};
+
+/**
+ * 按实体注册表把多个 CSV 数据源关联成一张视图，并以 ENTITY_JOIN 注册到 query_table 可查询的表中
+ * 没有可跨文件关联的实体时返回空字符串
+ */
+const attachEntityJoin = (tables: TableMap, entities: Entity[] = []): string => {
+  const join = buildEntityJoin(tables, entities);
+  if (!join) return "";
+  tables.set(ENTITY_JOIN_ID, { name: '跨文件实体关联视图', table: join.table });
+  const { header, records } = join.table;
+  const lines = records.map(r => stringifyCsvRow(r));
+  const inline = lines.reduce((sum, l) => sum + l.length + 1, 0) <= JOIN_INLINE_CHARS;
+  return `
+
+【跨文件实体关联视图（Source_ID: ${ENTITY_JOIN_ID}）】
+按用户维护的实体注册表（品牌/车型/版本精确匹配）将 ${join.sources.map(s => `「${s.name}」(${s.id})`).join('、')} 关联为一张表：共 ${join.entityCount} 个实体、${records.length} 行${join.truncated ? '（组合行数过多已截断，完整数据请查询原数据源）' : ''}。
+- 列「文件名.列名」来自对应文件，「文件名.Row」为该文件中的原始行号 N；某文件没有该实体时相应列为空。
+- 跨文件对比、关联统计请调用 query_table 在 ${ENTITY_JOIN_ID} 上计算；注册表之外或未能唯一匹配的行不在视图中。
+- 引用来源时仍使用原文件的 Source_ID 与 [Row_N]，不得引用 ${ENTITY_JOIN_ID}。
+[Header] ${stringifyCsvRow(header)}${inline ? `\n${lines.join('\n')}` : ''}`;
+};
+
+const fileFrame = (s: KnowledgeSource) => {
+  const header = `\n\n=== FILE_START: ${s.name} (Source_ID: ${s.id}) ===\n`;
+  const footer = `\n=== FILE_END: ${s.name} ===\n`;
+  return { header, footer, length: header.length + footer.length };
+};
+
+/**
+ * 将数据源整理为提示文本：CSV 经 RFC 4180 解析，[Row_N] 与第 N 条真实记录一一对应（表头不计行号）
+ */
+const prepareSources = (sources: KnowledgeSource[]): { prepared: PreparedSource[], tables: TableMap } => {
+  const tables: TableMap = new Map();
+  const prepared: PreparedSource[] = sources.map(s => {
+    if (!isCsvSource(s)) {
+      return { source: s, preamble: "", body: s.content, kind: 'text', total: s.content.length };
+    }
+    const table = parseCsvTable(s.content);
+    const { header, records, schema } = table;
+    tables.set(s.id, { name: s.name, table });
+    const headerLine = stringifyCsvRow(header);
+    const schemaLine = `(SCHEMA: ${schema.columns.map(c => `${c.name}:${c.type}`).join(', ')} | ROWS: ${schema.rowCount})`;
+    const rowLines = records.map((record, idx) => `[Row_${idx + 1}] ${stringifyCsvRow(record)}`);
+
+    // 【周期性表头注入】每隔 50 行重新注入一次表头，强制 AI 维持列索引记忆
+    const body = rowLines.map((line, idx) => idx > 0 && idx % 50 === 0 ? `\n(REPEATED_HEADER: ${headerLine})\n${line}` : line).join('\n');
+    return { source: s, preamble: `${schemaLine}\n[Header] ${headerLine}\n`, body, kind: 'rows', total: records.length, headerLine, rowLines };
+  });
+  return { prepared, tables };
+};
+
+/**
+ * 多轮函数调用循环（流式）：文本增量经 onText 实时回传，思考阶段经 onThinking 标记；
+ * 模型发起 query_table 调用时在本地执行并回传结果，直至给出最终答案
+ */
+const runWithTools = async (
+  messages: LlmMessage[],
+  tables: TableMap,
+  computations: ComputationRecord[],
+  options: StreamCallbacks
+): Promise<string> => {
+  const { provider, model } = resolveTask('analysis');
+  const settings = getSettings();
+  const hasTables = tables.size > 0;
+  let answer = "";
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const response = await provider.generate({
+      model,
+      messages,
+      temperature: settings.temperature,
+      thinkingBudget: THINKING_PRESETS[settings.thinkingPreset].analysis,
+      signal: options.signal,
+      // 最后一轮不再提供工具，强制模型给出最终答案
+      tools: hasTables && round < MAX_TOOL_ROUNDS ? [QUERY_TABLE_TOOL] : undefined
+    }, event => {
+      if (event.type === 'thinking') {
+        options.onThinking?.(true);
+      } else {
+        options.onThinking?.(false);
+        answer += event.text;
+        options.onText?.(answer);
+      }
+    });
+
+    if (response.toolCalls.length === 0) return answer;
+
+    // 原样保留本轮模型输出（含提供方私有数据，如思考签名），续轮时回传
+    messages.push({ role: 'assistant', text: response.text, toolCalls: response.toolCalls, native: response.native });
+    for (const call of response.toolCalls) {
+      const record = executeTableQuery(call.args, tables, `Calc_${computations.length + 1}`);
+      computations.push(record);
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        toolName: call.name,
+        text: JSON.stringify(record.error ? { error: record.error } : { computation_id: record.id, ...record.result })
+      });
+    }
+  }
+  return answer;
+};
+
+// 历史窗口为 0 时不携带对话历史
+const formatHistory = (history: ChatMessage[], window: number) =>
+  (window > 0 ? history.slice(-window) : []).map(h => `${h.role === 'user' ? '用户' : '你'}: ${h.text}`).join('\n');
+
+const CALC_INSTRUCTION = `任何求和、计数、平均、最值、排名都必须调用 query_table 工具在对应 Source_ID 上完成，严禁心算；答案中每个由工具得到的数字后须紧跟其计算编号，如 12345 [Calc_1]。`;
+
+/**
+ * 数据池未超出预算：全部数据源完整注入
+ */
+const buildFullContext = (prepared: PreparedSource[]): { contextBuffer: string, report: ContextReport } => ({
+  contextBuffer: prepared.map(p => {
+    const frame = fileFrame(p.source);
+    return frame.header + p.preamble + p.body + frame.footer;
+  }).join(''),
+  report: {
+    mode: 'full',
+    coverage: prepared.map(p => ({
+      sourceId: p.source.id, name: p.source.name, status: 'full', kind: p.kind,
+      ranges: p.total > 0 ? [[p.kind === 'rows' ? 1 : 0, p.total]] : [], total: p.total
+    }))
+  }
+});
+
+/**
+ * 数据池超出预算：按 BM25 相关度贪心选取检索块直至填满预算，并记录每个数据源的纳入区间
+ */
+const buildRetrievalContext = async (prepared: PreparedSource[], retrievalQuery: string, budget: number): Promise<{ contextBuffer: string, report: ContextReport }> => {
+  const indexes = await loadSourceIndexes(prepared.map(p => p.source));
+  const bySource = new Map(prepared.map(p => [p.source.id, p]));
+  const selected = new Map<string, IndexChunk[]>();
+  let usedChars = 0;
+
+  for (const { chunk } of rankChunks(retrievalQuery, indexes)) {
+    const p = bySource.get(chunk.sourceId);
+    if (!p) continue;
+    const overhead = selected.has(chunk.sourceId) ? 0 : fileFrame(p.source).length + p.preamble.length;
+    const cost = overhead + chunk.text.length + 1;
+    if (usedChars + cost > budget) continue;
+    usedChars += cost;
+    const list = selected.get(chunk.sourceId);
+    if (list) list.push(chunk);
+    else selected.set(chunk.sourceId, [chunk]);
+  }
+
+  let contextBuffer = "";
+  const coverage: ContextCoverage[] = prepared.map(p => {
+    const chunks = (selected.get(p.source.id) || []).sort((a, b) => a.start - b.start);
+    const totalChunks = indexes.find(i => i.sourceId === p.source.id)?.chunks.length || 0;
+    const ranges = mergeRanges(chunks);
+
+    if (chunks.length > 0) {
+      const frame = fileFrame(p.source);
+      const excerpt = chunks.map((c, i) => {
+        const isContiguous = i > 0 && c.start === chunks[i - 1].end + (c.kind === 'rows' ? 1 : 0);
+        if (isContiguous) return c.text;
+        return p.headerLine ? `(REPEATED_HEADER: ${p.headerLine})\n${c.text}` : `...\n${c.text}`;
+      }).join('\n');
+      contextBuffer += frame.header + p.preamble + excerpt + frame.footer;
+    }
+
+    return {
+      sourceId: p.source.id, name: p.source.name, kind: p.kind, ranges, total: p.total,
+      status: chunks.length === 0 ? 'excluded' : chunks.length === totalChunks ? 'full' : 'partial'
+    };
+  });
+
+  return { contextBuffer, report: { mode: 'retrieval', coverage } };
+};
+
+const QUERY_TABLE_TOOL: LlmTool = {
+  name: "query_table",
+  description: "在指定 CSV 数据源上执行确定性计算（筛选、分组、求和、计数、平均、最值、排序取前 N）。所有统计数字必须通过此工具得到。",
+  parameters: {
+    type: "object",
+    properties: {
+      sourceId: { type: "string", description: "数据源的 Source_ID" },
+      filters: {
+        type: "array",
+        description: "筛选条件，多个条件之间为 AND；等值匹配为精确匹配",
+        items: {
+          type: "object",
+          properties: {
+            column: { type: "string", description: "列名，须与表头完全一致" },
+            op: { type: "string", enum: ["eq", "neq", "contains", "gt", "gte", "lt", "lte", "in"] },
+            value: { type: "string" },
+            values: { type: "array", items: { type: "string" }, description: "op 为 in 时的候选值" }
+          },
+          required: ["column", "op"]
+        }
+      },
+      groupBy: { type: "array", items: { type: "string" }, description: "分组列" },
+      aggregates: {
+        type: "array",
+        description: "聚合运算；为空时返回筛选后的明细行",
+        items: {
+          type: "object",
+          properties: {
+            op: { type: "string", enum: ["sum", "count", "avg", "min", "max"] },
+            column: { type: "string", description: "聚合列；count 省略时统计行数" }
+          },
+          required: ["op"]
+        }
+      },
+      orderBy: {
+        type: "object",
+        properties: {
+          column: { type: "string", description: "结果列名，如 sum(销量)" },
+          direction: { type: "string", enum: ["asc", "desc"] }
+        },
+        required: ["column", "direction"]
+      },
+      limit: { type: "integer", description: "取前 N 条" }
+    },
+    required: ["sourceId"]
+  }
+};
+
+/**
+ * 执行模型发起的 query_table 调用，返回给模型的响应与计算记录
+ */
+const executeTableQuery = (
+  args: Record<string, unknown>,
+  tables: Map<string, { name: string, table: ParsedTable }>,
+  computationId: string
+): ComputationRecord => {
+  const query = args as unknown as TableQuery;
+  const entry = tables.get(query.sourceId);
+  const sourceName = entry?.name || query.sourceId;
+  const record: ComputationRecord = {
+    id: computationId,
+    sourceId: query.sourceId,
+    sourceName,
+    description: `《${sourceName}》`,
+    query
+  };
+  // 参数格式错误同样作为工具错误回传给模型，不中断整个回答
+  try {
+    record.description = describeQuery(query, sourceName);
+    if (!entry) throw new Error(`未找到 CSV 数据源：${query.sourceId}`);
+    record.result = runTableQuery(entry.table, query);
+  } catch (error) {
+    record.error = error instanceof Error ? error.message : String(error);
+  }
+  return record;
+};
+
+/**
+ * 极简元数据提取：保留原始数据完整性
+ * PDF 走本地文字层解析；加密、扫描件等无法提取的情况直接抛出 DocumentExtractionError
+ * 文本类文件自动探测编码（UTF-8 / GB18030 / Big5 等），识别结果随 encoding 返回
+ * 摘要使用设置中的摘要任务模型与温度
+ */
+export const extractTextFromDocument = async (base64Data: string, mimeType: string, fileName: string): Promise<{text: string, summary: string, encoding?: TextEncoding}> => {
+  const isPdf = mimeType === 'application/pdf' || fileName.toLowerCase().endsWith('.pdf');
+  const decoded = isPdf ? null : decodeBase64Text(base64Data);
+  const rawContent = decoded ? decoded.text : (await extractPdfText(base64ToBytes(base64Data))).text;
+
+  try {
+    const { provider, model } = resolveTask('summary');
+    // 支持 PDF 的提供方直接读取原文件；文本类文件及其他提供方提交解码后的文本，避免非 UTF-8 字节被模型误读
+    const attachPdf = isPdf && provider.nativePdf;
+
+    const response = await provider.generate({
+      model,
+      messages: [{
+        role: 'user',
+        attachments: attachPdf ? [{ data: base64Data, mimeType: 'application/pdf' }] : undefined,
+        text: `${attachPdf ? '' : `${rawContent.slice(0, 20000)}\n\n`}你是一名资深数据治理专家。请针对此文件：
+            1. 确定其核心数据维度（如：配置差异表、市场销量明细）。
+            2. 严禁质疑文件中数据的真实性，文件中的每一个字都是绝对的事实。
+            3. 提供一个25字以内的核心摘要。
+            
+            输出必须是纯 JSON，格式为 {"summary": "..."}。`
+      }],
+      temperature: getSettings().temperature,
+      jsonSchema: {
+        type: "object",
+        properties: {
+          summary: { type: "string" }
+        },
+        required: ["summary"]
+      }
+    });
+
+    const result = JSON.parse(response.text.replace(/^\s*```(?:json)?|```\s*$/g, '') || "{}");
+    
+    return {
+      text: rawContent, 
+      summary: result.summary || "全量原始数据已载入",
+      encoding: decoded?.encoding
+    };
+  } catch (error) {
+    // 限流与服务端错误交给导入队列退避重试，其余错误降级为无摘要入库
+    if (isRetryableError(error)) throw error;
+    console.error("AI Metadata Extraction Failed:", error);
+    return {
+      text: rawContent,
+      summary: "原始数据已就绪（自动识别异常）",
+      encoding: decoded?.encoding
+    };
+  }
+};
+
+/**
+ * 图片 / 截图识别：由多模态模型把图中的表格逐格转写为表头与行，非表格内容转写为纯文本
+ * 表格在本地拼成 CSV，之后与 CSV 数据源走同一套结构化查询流程；识别失败直接抛出
+ */
+export const extractImageContent = async (base64Data: string, mimeType: string, fileName: string): Promise<{text: string, summary: string, isTable: boolean}> => {
+  const { provider, model } = resolveTask('vision');
+  const response = await provider.generate({
+    model,
+    messages: [{
+      role: 'user',
+      attachments: [{ data: base64Data, mimeType }],
+      text: `你是一名数据录入专家。这是一张名为「${fileName}」的截图或照片，请完整转写其中的数据：
+            1. 若图中主体是表格（参数表、销量排行等），kind 为 "table"：headers 为列名，rows 为逐行的单元格文本，数量、顺序与图中一致；多级表头按“上级/下级”拍平；合并单元格在覆盖的每一行重复填写。
+            2. 否则 kind 为 "text"，text 为图中全部文字，按阅读顺序分段。
+            3. 逐字转写，严禁推测、补全或改写任何数字与单位；无法辨认的字符写作“?”。
+            4. summary 为25字以内的核心摘要。
+
+            输出必须是纯 JSON，格式为 {"kind": "table" | "text", "headers": [...], "rows": [[...]], "text": "...", "summary": "..."}。`
+    }],
+    temperature: 0,
+    jsonSchema: {
+      type: "object",
+      properties: {
+        kind: { type: "string", enum: ["table", "text"] },
+        headers: { type: "array", items: { type: "string" } },
+        rows: { type: "array", items: { type: "array", items: { type: "string" } } },
+        text: { type: "string" },
+        summary: { type: "string" }
+      },
+      required: ["kind", "summary"]
+    }
+  });
+
+  const result = JSON.parse(response.text.replace(/^\s*```(?:json)?|```\s*$/g, '') || "{}");
+  const headers: string[] = (result.headers || []).map((h: unknown) => String(h ?? '').trim());
+  const rows: string[][] = (result.rows || []).map((row: unknown[]) => headers.map((_, i) => String(row?.[i] ?? '').trim()));
+  if (result.kind === 'table' && headers.length > 0 && rows.length > 0) {
+    return {
+      text: [headers, ...rows].map(row => stringifyCsvRow(row)).join('\n'),
+      summary: result.summary || `图片表格已识别（${rows.length} 行）`,
+      isTable: true
+    };
+  }
+  const text = String(result.text || '').trim();
+  if (!text) throw new Error('未能从图片中识别出文字或表格');
+  return { text, summary: result.summary || "图片文字已识别", isTable: false };
+};
+
+/**
+ * 核心重构：带“周期性表头”和“数据主权协议”的分析引擎
+ * 统计类数字通过 query_table 工具在本地计算，计算记录随结果返回
+ */
+export const analyzeData = async (
+  query: string,
+  history: ChatMessage[],
+  sources: KnowledgeSource[],
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const computations: ComputationRecord[] = [];
+  let partial = "";
+  let report: ContextReport | undefined;
+  const onText = (text: string) => { partial = text; options.onText?.(text); };
+  try {
+    const settings = getSettings();
+    const validSources = dedupeByContent(sources.filter(s => s.content && s.content.length > 0));
+    
+    if (validSources.length === 0) {
+      return { text: "⚠️ 知识库当前没有可供分析的有效文档，请在知识库分区导入资料。", computations };
+    }
+
+    const { prepared, tables } = prepareSources(validSources);
+    const joinSection = attachEntityJoin(tables, options.entities);
+    const fullSize = prepared.reduce((sum, p) => sum + fileFrame(p.source).length + p.preamble.length + p.body.length, 0);
+    const context = fullSize <= settings.contextBudget
+      ? buildFullContext(prepared)
+      : await buildRetrievalContext(prepared, [query, ...history.filter(h => h.role === 'user').slice(-2).map(h => h.text)].join('\n'), settings.contextBudget);
+    const { contextBuffer } = context;
+    report = context.report;
+
+    const chatHistory = formatHistory(history, settings.historyWindow);
+
+    const messages: LlmMessage[] = [{ role: 'user', text: `你现在是“所长的知识宝”高精度数据分析引擎。
+
+${DATA_PROTOCOL}${formatPartitionRules(options.partitions)}
+
+【原子化原始数据池】${report.mode === 'retrieval' ? `
+（数据池超出上下文预算，以下仅为按问题相关度检索出的片段，行号与原文件一致；query_table 工具始终在完整数据上计算）` : ''}
+${contextBuffer}${joinSection}
+
+【对话历史】
+${chatHistory}
+
+【执行算法：全量坐标扫描】
+- **第一步：行号锁定**。首先在心中列出所有包含提问关键词的 [Row_ID]。
+- **第二步：独立性验证**。对比搜寻到的每一行，检查销量、价格、配置等微小差异。
+${tables.size > 0
+  ? `- **第三步：代码计算**。${CALC_INSTRUCTION}`
+  : `- **第三步：总量核对**。在输出结论前，手动对搜寻到的所有行进行求和或计数校验。`}
+- **第四步：专业呈现**。使用 Markdown 表格列出所有检索到的行及其对应数据。
+- **第五步：来源标注**。${CITE_INSTRUCTION}
+
+【用户当前问题】
+${query}` }];
+
+    const text = await runWithTools(messages, tables, computations, {
+      signal: options.signal, onText, onThinking: options.onThinking
+    });
+    return { text: text || "检索完成，但在数据池中未发现匹配项。", computations, contextReport: report };
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return { text: partial, computations, contextReport: report, interrupted: true };
+    }
+    console.error("AI Analysis Failed:", error);
+    return { text: `❌ 深度分析失败: ${error instanceof Error ? error.message : '未知错误'}`, computations };
+  }
+};
+
+const sliceText = (text: string, size: number): string[] =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+
+/**
+ * 将全部数据源按字符上限切分为 map 批次；CSV 按整行切分，每段都带文件头与表头
+ */
+const buildBatches = (prepared: PreparedSource[]): { label: string, text: string }[] => {
+  const batches: { label: string, text: string }[] = [];
+  let text = "";
+  let labels: string[] = [];
+  const flushBatch = () => {
+    if (text) batches.push({ label: labels.join('；'), text });
+    text = "";
+    labels = [];
+  };
+
+  for (const p of prepared) {
+    const frame = fileFrame(p.source);
+    const overhead = frame.length + p.preamble.length;
+    const units = p.rowLines || sliceText(p.body, BATCH_CHARS / 2);
+    let i = 0;
+    while (i < units.length) {
+      if (text && text.length + overhead + units[i].length > BATCH_CHARS) flushBatch();
+      const first = i;
+      let segment = "";
+      while (i < units.length && (i === first || text.length + overhead + segment.length + units[i].length < BATCH_CHARS)) {
+        segment += units[i] + (p.rowLines ? '\n' : '');
+        i++;
+      }
+      text += frame.header + p.preamble + segment + frame.footer;
+      labels.push(p.rowLines ? `${p.source.name} Row ${first + 1}–${i}` : `${p.source.name} 片段 ${first + 1}–${i}`);
+      if (i < units.length) flushBatch();
+    }
+  }
+  flushBatch();
+  return batches;
+};
+
+/**
+ * 分批结果合计超出上下文预算时分轮合并：按预算把相邻结果分组，每组由一次模型调用合并为一份，
+ * 直至能放入最终的 reduce 调用；单份结果本身超出预算、无法继续合并时按比例截断
+ */
+const mergePartials = async (
+  partials: string[],
+  budget: number,
+  prompt: (group: string[], round: number) => string,
+  generate: (text: string) => Promise<string>
+): Promise<string[]> => {
+  const size = (list: string[]) => list.reduce((sum, p) => sum + p.length + 2, 0);
+  for (let round = 1; size(partials) > budget && partials.length > 1; round++) {
+    const groups: string[][] = [];
+    for (const partial of partials) {
+      const last = groups[groups.length - 1];
+      if (last && size(last) + partial.length + 2 <= budget) last.push(partial);
+      else groups.push([partial]);
+    }
+    if (groups.length === partials.length) break;
+    partials = [];
+    for (const group of groups) {
+      partials.push(group.length === 1 ? group[0] : `### 第 ${round} 轮合并（${partials.length + 1}/${groups.length}）\n${(await generate(prompt(group, round))).trim() || 'NO_MATCH'}`);
+    }
+  }
+  if (size(partials) <= budget) return partials;
+  const share = Math.floor(budget / partials.length);
+  return partials.map(p => p.length > share ? `${p.slice(0, share)}\n[该部分结果超出上下文预算，已截断]` : p);
+};
+
+/**
+ * 全量分析（map-reduce）：逐批扫描全部数据得到部分结果，再由一次 reduce 调用合并
+ * 进度通过 onProgress 回调，signal 中止时返回已取消说明
+ */
+export const analyzeExhaustive = async (
+  query: string,
+  history: ChatMessage[],
+  sources: KnowledgeSource[],
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const computations: ComputationRecord[] = [];
+  const { signal, onProgress } = options;
+  let partial = "";
+  const onText = (text: string) => { partial = text; options.onText?.(text); };
+  const validSources = dedupeByContent(sources.filter(s => s.content && s.content.length > 0));
+  if (validSources.length === 0) {
+    return { text: "⚠️ 知识库当前没有可供分析的有效文档，请在知识库分区导入资料。", computations };
+  }
+
+  const { prepared, tables } = prepareSources(validSources);
+  const batches = buildBatches(prepared);
+  const progress: ExhaustiveProgress = {
+    phase: 'map',
+    batches: batches.map((b, index) => ({ index, label: b.label, status: 'pending' }))
+  };
+  const emit = () => onProgress?.({ ...progress, batches: progress.batches.map(b => ({ ...b })) });
+  const settings = getSettings();
+  const chatHistory = formatHistory(history, settings.historyWindow);
+  const rules = formatPartitionRules(options.partitions);
+  const joinSection = attachEntityJoin(tables, options.entities);
+  const partials: string[] = [];
+
+  try {
+    const { provider, model } = resolveTask('batch');
+    emit();
+
+    for (let i = 0; i < batches.length; i++) {
+      signal?.throwIfAborted();
+      progress.batches[i].status = 'running';
+      emit();
+      try {
+        const response = await provider.generate({
+          model,
+          messages: [{ role: 'user', text: `你正在执行全量数据扫描的第 ${i + 1}/${batches.length} 批（${batches[i].label}）。
+
+${DATA_PROTOCOL}${rules}
+
+【本批数据】
+${batches[i].text}
+
+【对话历史】
+${chatHistory}
+
+【本批任务】
+仅基于本批数据回答下面的问题：逐行扫描，用 Markdown 表格列出全部符合条件的行，保留 Source_ID 与 [Row_N] 行号及原始数值（文本资料保留逐字原文片段）；如问题涉及统计，另给出本批的部分统计值。本批没有任何相关行时只输出 NO_MATCH。
+
+【用户问题】
+${query}` }],
+          temperature: settings.temperature,
+          thinkingBudget: THINKING_PRESETS[settings.thinkingPreset].batch,
+          signal
+        });
+        partials.push(`### 批次 ${i + 1}（${batches[i].label}）\n${(response.text || 'NO_MATCH').trim()}`);
+        progress.batches[i].status = 'done';
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        progress.batches[i].status = 'error';
+        progress.batches[i].error = error instanceof Error ? error.message : '未知错误';
+        partials.push(`### 批次 ${i + 1}（${batches[i].label}）\n[该批次分析失败，结果缺失]`);
+      }
+      emit();
+    }
+
+    signal?.throwIfAborted();
+    progress.phase = 'reduce';
+    emit();
+
+    const failed = progress.batches.filter(b => b.status === 'error').length;
+    const merged = await mergePartials(partials, settings.contextBudget, (group, round) => `你正在合并全量数据扫描的部分结果（第 ${round} 轮）。
+
+${DATA_PROTOCOL}${rules}
+
+【待合并结果】
+${group.join('\n\n')}
+
+【合并任务】
+将以上结果合并为一份：保留全部符合条件的行及其 Source_ID、[Row_N] 行号与原始数值，按 Source_ID + [Row_N] 去重；部分统计值逐项合并；注明其中失败或截断的部分。全部为 NO_MATCH 时只输出 NO_MATCH。
+
+【用户问题】
+${query}`, async text => {
+      signal?.throwIfAborted();
+      const response = await provider.generate({
+        model,
+        messages: [{ role: 'user', text }],
+        temperature: settings.temperature,
+        thinkingBudget: THINKING_PRESETS[settings.thinkingPreset].batch,
+        signal
+      });
+      return response.text || '';
+    });
+    const messages: LlmMessage[] = [{ role: 'user', text: `你现在是“所长的知识宝”高精度数据分析引擎，正在合并全量扫描的分批结果。
+
+${DATA_PROTOCOL}${rules}
+
+【分批扫描结果（共 ${batches.length} 批${failed ? `，其中 ${failed} 批失败` : ''}）】
+${merged.join('\n\n')}
+
+【数据源 Source_ID】
+${prepared.map(p => `- ${p.source.name}: ${p.source.id}`).join('\n')}${joinSection}
+
+【合并要求】
+- 汇总所有批次中符合条件的行，按 Source_ID + [Row_N] 去重，不得遗漏任何批次的结果；NO_MATCH 批次忽略。
+- ${tables.size > 0 ? CALC_INSTRUCTION : '对各批次的部分统计值进行合并并复核。'}
+${failed ? '- 明确提示有批次失败，结论可能不完整。\n' : ''}- 使用 Markdown 表格呈现最终结果。
+- ${CITE_INSTRUCTION}
+
+【对话历史】
+${chatHistory}
+
+【用户当前问题】
+${query}` }];
+
+    const text = await runWithTools(messages, tables, computations, {
+      signal, onText, onThinking: options.onThinking
+    });
+    progress.phase = 'done';
+    emit();
+    return { text: text || "全量扫描完成，但未发现匹配项。", computations };
+  } catch (error) {
+    if (signal?.aborted) {
+      if (partial) return { text: partial, computations, interrupted: true };
+      const done = progress.batches.filter(b => b.status === 'done').length;
+      return { text: `全量分析已取消（已完成 ${done}/${batches.length} 批）。`, computations, interrupted: true };
+    }
+    console.error("Exhaustive Analysis Failed:", error);
+    return { text: `❌ 全量分析失败: ${error instanceof Error ? error.message : '未知错误'}`, computations };
+  }
+};
+
+export const summarizeContent = async (text: string, type: string): Promise<string> => {
+  try {
+    const { provider, model } = resolveTask('summary');
+    const response = await provider.generate({
+      model,
+      messages: [{ role: 'user', text: `总结此${type}的核心定位（20字内）：\n${text.slice(0, 1000)}` }]
+    });
+    return response.text || "数据已挂载";
+  } catch (error) {
+    if (isRetryableError(error)) throw error;
+    return "数据已挂载";
+  }
+};
+
+export const generateAvatar = async (sourceImage: string, stylePrompt: string): Promise<string | null> => {
+  try {
+    const { provider, model } = resolveTask('image');
+    if (!provider.generateImage) return null;
+    const base64Data = sourceImage.split(',')[1];
+    return await provider.generateImage({
+      model,
+      prompt: `Style: ${stylePrompt}. Professional portrait.`,
+      image: { data: base64Data, mimeType: 'image/png' }
+    });
+  } catch (error) { return null; }
+};
@@ -0,0 +1,257 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from "fflate";
+import { Entity, KnowledgeSource, Partition, ProcessingStatus, SourceType } from "../types.ts";
+import { base64ToBytes, bytesToBase64 } from "./encodingService.ts";
+import { entityLabel, normalizeLabel } from "./entityService.ts";
+import { flattenPartitionTree } from "./partitionService.ts";
+import { SourceFileRecord } from "./storageService.ts";
+
+export const ARCHIVE_FORMAT = 'magiclens-kb';
+// 归档格式版本：结构变化时递增，导入端据此拒绝无法识别的新版本
+// v2：加入实体注册表 entities.json；v3：附带导入队列保存的上传文件，导入后可重新处理
+export const ARCHIVE_VERSION = 3;
+
+export interface ArchiveEntry {
+  sourceId: string;
+  content: string; // Path of the parsed content inside the zip
+  original?: string; // Path of the original file, when the source kept one
+  upload?: string; // Path of the stored upload used for re-processing
+  uploadName?: string;
+  uploadType?: string; // MIME type of the stored upload
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  partitionCount: number;
+  sourceCount: number;
+  entries: ArchiveEntry[];
+}
+
+export interface ArchiveProfile {
+  avatarName?: string;
+  avatar?: string | null; // Data URL of the digital avatar
+}
+
+export interface KnowledgeArchive {
+  partitions: Partition[];
+  sources: KnowledgeSource[];
+  profile: ArchiveProfile;
+  entities?: Entity[]; // Entity registry; absent in archives exported before v2
+  files?: SourceFileRecord[]; // Stored uploads; absent in archives exported before v3
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * 归档文件无法导入时抛出，message 即展示给用户的原因
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// 系统分区在任何知识库中含义相同，导入时直接对应，不参与冲突处理
+const SYSTEM_PARTITION_IDS = ['all', 'uncategorized'];
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// 压缩包内的文件名去掉路径分隔符等非法字符
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_') || 'file';
+
+/**
+ * 打包整个知识库：manifest、分区、数据源元数据、解析后的正文、保留的原始文件与上传文件
+ * 仍在处理中的数据源不导出
+ */
+export const exportArchive = ({ partitions, sources, profile, entities = [], files: uploads = [] }: KnowledgeArchive): Uint8Array => {
+  const ready = sources.filter(s => s.status === ProcessingStatus.COMPLETED || s.status === ProcessingStatus.ERROR);
+  const uploadMap = new Map(uploads.map(u => [u.sourceId, u]));
+  const files: Zippable = {};
+  const entries: ArchiveEntry[] = ready.map(source => {
+    const entry: ArchiveEntry = { sourceId: source.id, content: `content/${source.id}.txt` };
+    files[entry.content] = strToU8(source.content);
+    if (source.rawData) {
+      entry.original = `originals/${source.id}/${safeFileName(source.name)}`;
+      files[entry.original] = base64ToBytes(source.rawData);
+    }
+    // 早期资料的 rawData 已作为原始文件导出，同一份字节不再重复写入
+    const upload = source.rawData ? undefined : uploadMap.get(source.id);
+    if (upload) {
+      entry.upload = `uploads/${source.id}/${safeFileName(upload.fileName)}`;
+      entry.uploadName = upload.fileName;
+      entry.uploadType = upload.mimeType;
+      files[entry.upload] = base64ToBytes(upload.dataUrl.split(',')[1] || '');
+    }
+    return entry;
+  });
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    partitionCount: partitions.length,
+    sourceCount: ready.length,
+    entries,
+  };
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+  files['partitions.json'] = strToU8(JSON.stringify(partitions, null, 2));
+  files['sources.json'] = strToU8(JSON.stringify(ready.map(({ content, rawData, ...meta }) => meta), null, 2));
+  files['profile.json'] = strToU8(JSON.stringify(profile));
+  files['entities.json'] = strToU8(JSON.stringify(entities, null, 2));
+  return zipSync(files, { level: 6 });
+};
+
+const readJson = (files: Record<string, Uint8Array>, path: string): unknown => {
+  if (!files[path]) throw new ArchiveError(`归档缺少 ${path}`);
+  try {
+    return JSON.parse(strFromU8(files[path]));
+  } catch {
+    throw new ArchiveError(`${path} 不是有效的 JSON`);
+  }
+};
+
+type SourceMeta = Omit<KnowledgeSource, 'content' | 'rawData'>;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isOptionalString = (v: unknown) => v === undefined || typeof v === 'string';
+
+const isEntry = (e: unknown): e is ArchiveEntry => isRecord(e) && typeof e.sourceId === 'string' && typeof e.content === 'string'
+  && isOptionalString(e.original) && isOptionalString(e.upload) && isOptionalString(e.uploadName) && isOptionalString(e.uploadType);
+const isManifest = (m: unknown): m is ArchiveManifest => isRecord(m) && m.format === ARCHIVE_FORMAT
+  && typeof m.version === 'number' && Number.isInteger(m.version) && m.version >= 1
+  && (m.entries === undefined || (Array.isArray(m.entries) && m.entries.every(isEntry)));
+const isPartition = (p: unknown): p is Partition => isRecord(p) && typeof p.id === 'string' && typeof p.name === 'string'
+  && isOptionalString(p.parentId);
+const isSourceMeta = (s: unknown): s is SourceMeta => isRecord(s) && typeof s.id === 'string' && typeof s.name === 'string'
+  && typeof s.partitionId === 'string' && Object.values<unknown>(SourceType).includes(s.type)
+  && Object.values<unknown>(ProcessingStatus).includes(s.status) && typeof s.dateAdded === 'number';
+const isEntity = (e: unknown): e is Entity => isRecord(e) && typeof e.id === 'string' && typeof e.brand === 'string'
+  && typeof e.model === 'string' && typeof e.trim === 'string' && Array.isArray(e.aliases) && e.aliases.every(a => typeof a === 'string');
+
+const readProfile = (value: unknown): ArchiveProfile => isRecord(value) ? {
+  ...(typeof value.avatarName === 'string' ? { avatarName: value.avatarName } : {}),
+  ...(typeof value.avatar === 'string' ? { avatar: value.avatar } : {}),
+} : {};
+
+/**
+ * 解析并校验归档：格式标识、版本号、分区与数据源结构以及 manifest 中登记的每个文件
+ */
+export const readArchive = (data: Uint8Array): KnowledgeArchive & { manifest: ArchiveManifest } => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new ArchiveError('文件不是有效的 zip 归档');
+  }
+
+  const manifest = readJson(files, 'manifest.json');
+  if (!isRecord(manifest) || manifest.format !== ARCHIVE_FORMAT) throw new ArchiveError('不是本应用导出的知识库归档');
+  if (!isManifest(manifest)) throw new ArchiveError('归档版本号或文件清单无效');
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`归档版本 v${manifest.version} 高于当前支持的 v${ARCHIVE_VERSION}，请先升级应用`);
+  }
+
+  const partitions = readJson(files, 'partitions.json');
+  if (!Array.isArray(partitions) || !partitions.every(isPartition)) throw new ArchiveError('partitions.json 结构无效');
+  const metas = readJson(files, 'sources.json');
+  if (!Array.isArray(metas) || !metas.every(isSourceMeta)) throw new ArchiveError('sources.json 结构无效');
+  const profile = files['profile.json'] ? readProfile(readJson(files, 'profile.json')) : {};
+  let entities: Entity[] | undefined;
+  if (files['entities.json']) {
+    const parsed = readJson(files, 'entities.json');
+    if (!Array.isArray(parsed) || !parsed.every(isEntity)) throw new ArchiveError('entities.json 结构无效');
+    entities = parsed;
+  }
+
+  const entries = new Map((manifest.entries || []).map(e => [e.sourceId, e]));
+  const uploads: SourceFileRecord[] = [];
+  const sources: KnowledgeSource[] = metas.map(meta => {
+    const entry = entries.get(meta.id);
+    if (!entry || !files[entry.content]) throw new ArchiveError(`数据源「${meta.name}」缺少正文文件`);
+    if (entry.original && !files[entry.original]) throw new ArchiveError(`数据源「${meta.name}」缺少原始文件`);
+    if (entry.upload) {
+      if (!files[entry.upload]) throw new ArchiveError(`数据源「${meta.name}」缺少上传文件`);
+      const mimeType = entry.uploadType || 'application/octet-stream';
+      uploads.push({ sourceId: meta.id, fileName: entry.uploadName || meta.name, mimeType, dataUrl: `data:${mimeType};base64,${bytesToBase64(files[entry.upload])}` });
+    }
+    return {
+      ...meta,
+      content: strFromU8(files[entry.content]),
+      ...(entry.original ? { rawData: bytesToBase64(files[entry.original]) } : {}),
+    };
+  });
+
+  return { manifest, partitions, sources, profile, entities, files: uploads };
+};
+
+const mergeEntities = (current: Entity[], incoming: Entity[]): Entity[] => {
+  const merged = [...current];
+  for (const entity of incoming) {
+    const label = normalizeLabel(entityLabel(entity));
+    const index = merged.findIndex(e => normalizeLabel(entityLabel(e)) === label);
+    if (index === -1) {
+      merged.push(merged.some(e => e.id === entity.id) ? { ...entity, id: newId() } : entity);
+      continue;
+    }
+    const aliases = merged[index].aliases;
+    const known = new Set(aliases.map(normalizeLabel));
+    merged[index] = { ...merged[index], aliases: [...aliases, ...entity.aliases.filter(a => !known.has(normalizeLabel(a)))] };
+  }
+  return merged;
+};
+
+/**
+ * 将归档合并进当前知识库或整体替换
+ * 合并：同一上级下的同名分区复用已有分区，同 id 不同名的分区与冲突的数据源 id 重新分配，工作簿、版本组与上下级关联随之更新；
+ * 品牌、车型、版本相同的实体合并别名，其余实体追加
+ * 替换：以归档内容为准，仅补齐缺失的系统分区；早期归档不含实体注册表时保留当前注册表
+ */
+export const applyArchive = (
+  current: { partitions: Partition[], sources: KnowledgeSource[], entities: Entity[] },
+  archive: KnowledgeArchive,
+  mode: ImportMode
+): { partitions: Partition[], sources: KnowledgeSource[], entities: Entity[], files: SourceFileRecord[], imported: KnowledgeSource[] } => {
+  if (mode === 'replace') {
+    const missingSystem = current.partitions.filter(p => p.isSystem && !archive.partitions.some(a => a.id === p.id));
+    const partitions = [
+      ...missingSystem.filter(p => p.id === 'all'),
+      ...archive.partitions,
+      ...missingSystem.filter(p => p.id !== 'all'),
+    ];
+    return { partitions, sources: archive.sources, entities: archive.entities ?? current.entities, files: archive.files || [], imported: archive.sources };
+  }
+
+  const partitionMap = new Map<string, string>();
+  const added: Partition[] = [];
+  // 按树形顺序处理，保证上级分区先于子分区完成映射
+  for (const { partition: p } of flattenPartitionTree(archive.partitions)) {
+    if (SYSTEM_PARTITION_IDS.includes(p.id)) { partitionMap.set(p.id, p.id); continue; }
+    const parentId = p.parentId ? partitionMap.get(p.parentId) : undefined;
+    const sameName = current.partitions.find(c => c.name === p.name && c.parentId === parentId);
+    if (sameName) { partitionMap.set(p.id, sameName.id); continue; }
+    const id = current.partitions.some(c => c.id === p.id) ? newId() : p.id;
+    partitionMap.set(p.id, id);
+    added.push({ ...p, id, parentId });
+  }
+
+  const takenIds = new Set(current.sources.map(s => s.id));
+  const sourceMap = new Map(archive.sources.map(s => [s.id, takenIds.has(s.id) ? newId() : s.id]));
+  const imported = archive.sources.map((s, i) => ({
+    ...s,
+    id: sourceMap.get(s.id)!,
+    partitionId: partitionMap.get(s.partitionId) || 'uncategorized',
+    sequenceNumber: current.sources.length + i + 1,
+    ...(s.workbookId ? { workbookId: sourceMap.get(s.workbookId) || s.workbookId } : {}),
+    ...(s.versionGroupId ? { versionGroupId: sourceMap.get(s.versionGroupId) || s.versionGroupId } : {}),
+  }));
+
+  // 新分区插在“未分类”之前，保持系统分区位于列表末尾
+  const tail = current.partitions.findIndex(p => p.id === 'uncategorized');
+  const partitions = tail === -1
+    ? [...current.partitions, ...added]
+    : [...current.partitions.slice(0, tail), ...added, ...current.partitions.slice(tail)];
+  const files = (archive.files || []).map(f => ({ ...f, sourceId: sourceMap.get(f.sourceId) || f.sourceId }));
+  return { partitions, sources: [...current.sources, ...imported], entities: mergeEntities(current.entities, archive.entities || []), files, imported };
+};
@@ -0,0 +1,101 @@
+import { Citation, KnowledgeSource } from "../types.ts";
+
+// 答案中引用链接使用的自定义协议
+export const CITE_SCHEME = 'cite:';
+
+// [[cite:ID:R12]]、[[cite:ID:R12-R15]]、[[cite:ID:C100-250]]、[[cite:ID:"原文片段"]]
+const CITATION_TOKEN = /\[\[cite:([A-Za-z0-9_-]+):(?:R(\d+)(?:\s*[-–~]\s*R?(\d+))?|C(\d+)\s*[-–~]\s*(\d+)|["“]([^"”\]\n]+)["”])\]\]/g;
+const CITATION_HREF = /^cite:([A-Za-z0-9_-]+)\/(R|C)(\d+)-(\d+)$/;
+
+// 引文定位结果缓存，避免流式输出时对大文件反复搜索；按最近使用保留有限条目，已删除资料的条目随之淘汰
+const QUOTE_CACHE_SIZE = 500;
+const quoteCache = new Map<string, [number, number] | null>();
+
+export const CITE_INSTRUCTION = `答案中每一个来自数据的数字或结论后都必须紧跟来源标注：CSV 数据写作 [[cite:Source_ID:R行号]]，连续多行写作 [[cite:Source_ID:R起始行-R结束行]]（行号即 [Row_N] 中的 N）；文档、网页等文本资料写作 [[cite:Source_ID:"原文片段"]]，片段须逐字摘自原文、不超过 30 字且不含 | 符号。`;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 在原文中定位引文片段，返回字符区间；先精确匹配，再忽略空白差异匹配
+ */
+export const locateQuote = (content: string, quote: string, cacheKey?: string): [number, number] | null => {
+  const key = cacheKey && `${cacheKey}\u0000${quote}`;
+  if (key && quoteCache.has(key)) {
+    // Map 按插入顺序迭代，重新插入即标记为最近使用
+    const cached = quoteCache.get(key)!;
+    quoteCache.delete(key);
+    quoteCache.set(key, cached);
+    return cached;
+  }
+
+  let span: [number, number] | null = null;
+  const exact = content.indexOf(quote);
+  if (exact >= 0) {
+    span = [exact, exact + quote.length];
+  } else {
+    const chars = Array.from(quote.replace(/\s+/g, ''));
+    if (chars.length > 0) {
+      const match = new RegExp(chars.map(escapeRegExp).join('\\s*')).exec(content);
+      if (match) span = [match.index, match.index + match[0].length];
+    }
+  }
+
+  if (key) {
+    quoteCache.set(key, span);
+    if (quoteCache.size > QUOTE_CACHE_SIZE) quoteCache.delete(quoteCache.keys().next().value!);
+  }
+  return span;
+};
+
+const toHref = (c: Citation) => `${CITE_SCHEME}${c.sourceId}/${c.kind === 'rows' ? 'R' : 'C'}${c.start}-${c.end}`;
+
+export const formatCitation = (c: Citation) => c.kind === 'rows'
+  ? c.start === c.end ? `R${c.start}` : `R${c.start}–${c.end}`
+  : `字符 ${c.start}–${c.end}`;
+
+const toCitation = (sources: KnowledgeSource[], sourceId: string, rowStart?: string, rowEnd?: string, charStart?: string, charEnd?: string, quote?: string): Citation | null => {
+  if (rowStart) {
+    const start = parseInt(rowStart, 10);
+    const end = rowEnd ? parseInt(rowEnd, 10) : start;
+    return { sourceId, kind: 'rows', start: Math.min(start, end), end: Math.max(start, end) };
+  }
+  if (charStart && charEnd) {
+    return { sourceId, kind: 'span', start: parseInt(charStart, 10), end: parseInt(charEnd, 10) };
+  }
+  const source = sources.find(s => s.id === sourceId);
+  const span = source && quote ? locateQuote(source.content, quote.trim(), `${sourceId}:${source.content.length}`) : null;
+  return span ? { sourceId, kind: 'span', start: span[0], end: span[1] } : null;
+};
+
+/**
+ * 将答案中的 [[cite:...]] 标注转换为 cite: 协议的 Markdown 链接；引文片段解析为字符区间，无法定位时保留为文字提示
+ */
+export const linkifyCitations = (text: string, sources: KnowledgeSource[]): string =>
+  text.replace(CITATION_TOKEN, (token, sourceId: string, rowStart?: string, rowEnd?: string, charStart?: string, charEnd?: string, quote?: string) => {
+    const citation = toCitation(sources, sourceId, rowStart, rowEnd, charStart, charEnd, quote);
+    return citation ? `[${formatCitation(citation)}](${toHref(citation)})` : `（引文未能在原文中定位：${quote}）`;
+  });
+
+/**
+ * 提取文本片段中的全部引用；无法定位的引文片段被忽略
+ */
+export const extractCitations = (text: string, sources: KnowledgeSource[]): Citation[] =>
+  Array.from(text.matchAll(CITATION_TOKEN))
+    .map(m => toCitation(sources, m[1], m[2], m[3], m[4], m[5], m[6]))
+    .filter((c): c is Citation => c !== null);
+
+export const stripCitations = (text: string) => text.replace(CITATION_TOKEN, '');
+
+/**
+ * 解析 cite: 协议链接，非引用链接返回 null
+ */
+export const parseCitationHref = (href: string): Citation | null => {
+  const match = CITATION_HREF.exec(href);
+  if (!match) return null;
+  return {
+    sourceId: match[1],
+    kind: match[2] === 'R' ? 'rows' : 'span',
+    start: parseInt(match[3], 10),
+    end: parseInt(match[4], 10),
+  };
+};
@@ -0,0 +1,148 @@
+import { ColumnType, TableSchema } from "../types.ts";
+
+export interface ParsedTable {
+  header: string[];
+  records: string[][];
+  schema: TableSchema;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+// 类型推断时最多抽样的非空值数量
+const TYPE_SAMPLE_SIZE = 500;
+// 抽样值中满足某类型的比例达到该阈值即判定为该类型
+const TYPE_MATCH_RATIO = 0.9;
+
+const DATE_PATTERNS = [
+  /^\d{4}[-/.]\d{1,2}([-/.]\d{1,2})?( \d{1,2}:\d{2}(:\d{2})?)?$/,
+  /^\d{4}年\d{1,2}月(\d{1,2}日)?$/,
+  /^\d{1,2}\/\d{1,2}\/\d{4}$/,
+  /^\d{4}[Qq][1-4]$/,
+];
+const CURRENCY_MARK = /[¥￥$€£元]/;
+
+/**
+ * 依据首行（引号外）出现次数最多的候选分隔符判定分隔符，默认逗号
+ * 与 parseCsv 相同，只有位于字段开头的引号才开启引用字段，字段中间的引号（如 19" 轮毂）按普通字符处理
+ */
+export const detectDelimiter = (text: string): string => {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  let fieldStart = true;
+  for (const ch of text) {
+    if (inQuotes) {
+      if (ch === '"') inQuotes = false;
+      continue;
+    }
+    if (ch === '\n' || ch === '\r') break;
+    if (ch === '"' && fieldStart) { inQuotes = true; continue; }
+    if (counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+    fieldStart = counts.has(ch);
+  }
+  let best = ',';
+  counts.forEach((count, d) => { if (count > counts.get(best)!) best = d; });
+  return best;
+};
+
+/**
+ * RFC 4180 解析：支持引号包裹的字段、字段内的分隔符与换行、"" 转义以及 CRLF/LF/CR 换行
+ * 只有字段开头的引号开启引用字段，未加引号字段中的引号（如英寸符号）保留为普通字符
+ * 完全空白的行会被跳过
+ */
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim().length > 0) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') { field += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field.length > 0 || row.length > 0) endRow();
+  return rows;
+};
+
+export const stringifyCsvRow = (cells: string[], delimiter: string = ','): string => {
+  return cells.map(cell => /[",\r\n]/.test(cell) || cell.includes(delimiter) ? `"${cell.replace(/"/g, '""')}"` : cell).join(delimiter);
+};
+
+/**
+ * 解析数值：容忍货币符号、千分位、百分号以及“万/亿”单位，无法解析时返回 null
+ * 分号分隔的表格按欧洲习惯以逗号为小数点（1,5 即 1.5）、以点或空格为千分位；其余情况逗号为千分位
+ */
+export const parseNumeric = (value: string, delimiter: string = ','): number | null => {
+  let text = value.trim().replace(/[¥￥$€£，\s]/g, '').replace(/元$/, '');
+  text = delimiter === ';' && text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  if (!text) return null;
+  let multiplier = 1;
+  if (text.endsWith('%')) { multiplier = 0.01; text = text.slice(0, -1); }
+  else if (text.endsWith('亿')) { multiplier = 1e8; text = text.slice(0, -1); }
+  else if (text.endsWith('万')) { multiplier = 1e4; text = text.slice(0, -1); }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return null;
+  return Number(text) * multiplier;
+};
+
+const isDateValue = (value: string) => DATE_PATTERNS.some(p => p.test(value.trim()));
+
+export const inferColumnType = (values: string[], delimiter: string = ','): ColumnType => {
+  const sample = values.map(v => v.trim()).filter(v => v.length > 0).slice(0, TYPE_SAMPLE_SIZE);
+  if (sample.length === 0) return 'text';
+  const ratio = (predicate: (v: string) => boolean) => sample.filter(predicate).length / sample.length;
+
+  if (ratio(isDateValue) >= TYPE_MATCH_RATIO) return 'date';
+  if (ratio(v => parseNumeric(v, delimiter) !== null) >= TYPE_MATCH_RATIO) {
+    return sample.some(v => CURRENCY_MARK.test(v)) ? 'currency' : 'number';
+  }
+  return 'text';
+};
+
+/**
+ * 解析整张表：首行为表头（空白或重复列名自动补全），其余为记录，并推断列类型
+ */
+export const parseCsvTable = (text: string): ParsedTable => {
+  const delimiter = detectDelimiter(text);
+  const rows = parseCsv(text, delimiter);
+  const [headerRow = [], ...records] = rows;
+  // 逐行取最大列数；展开为参数在十余万行时会超出调用栈
+  const width = records.reduce((max, r) => Math.max(max, r.length), headerRow.length);
+
+  const seen = new Map<string, number>();
+  const header = Array.from({ length: width }, (_, i) => {
+    const base = (headerRow[i] || '').trim() || `列${i + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+
+  const schema: TableSchema = {
+    columns: header.map((name, i) => ({ name, type: inferColumnType(records.map(r => r[i] || ''), delimiter) })),
+    rowCount: records.length,
+    delimiter,
+  };
+  return { header, records, schema };
+};
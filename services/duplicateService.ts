@@ -0,0 +1,119 @@
+import { KnowledgeSource } from "../types.ts";
+import { parseCsvTable, stringifyCsvRow } from "./csvService.ts";
+import { isCsvSource } from "./retrievalService.ts";
+
+export type DuplicateKind = 'exact' | 'near';
+
+export interface DuplicateMatch {
+  source: KnowledgeSource;
+  kind: DuplicateKind;
+  sharedRows?: number; // Near duplicates only: data rows present in both tables
+  overlap?: number; // sharedRows relative to the smaller table, 0–1
+}
+
+export interface DuplicateCandidate {
+  contentHash: string;
+  text?: string; // Decoded text of CSV/TXT uploads, compared against sources stored before hashing existed
+  header?: string[]; // Parsed locally for CSV uploads
+  records?: string[][];
+}
+
+// 表头相同且重叠行数占较小一方的比例达到该阈值即视为近似重复
+const NEAR_DUPLICATE_RATIO = 0.5;
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * 纯 JS 实现的 SHA-256：非安全上下文（如通过局域网 http 地址访问）没有 crypto.subtle，
+ * 使用与之结果一致的实现，保证摘要可以和已入库资料比较
+ */
+const sha256 = (bytes: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, bytes.length * 8);
+
+  const h = Uint32Array.from([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g; g = f; f = e; e = (d + t1) >>> 0; d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((v, i) => outView.setUint32(i * 4, v));
+  return out;
+};
+
+/**
+ * 文件内容的 SHA-256 摘要（十六进制）；浏览器不提供 crypto.subtle 时使用纯 JS 实现
+ */
+export const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+  const digest = globalThis.crypto?.subtle ? new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)) : sha256(bytes);
+  return Array.from(digest).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const sameHeader = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((col, i) => col.trim() === b[i].trim());
+
+/**
+ * 在已有数据源中查找上传文件的重复项：摘要相同（早期资料无摘要时比较正文）为完全重复；
+ * 表格资料表头相同且数据行大量重叠为近似重复
+ */
+export const findDuplicates = (candidate: DuplicateCandidate, sources: KnowledgeSource[]): DuplicateMatch[] => {
+  const matches: DuplicateMatch[] = [];
+  const rowSet = candidate.records ? new Set(candidate.records.map(r => stringifyCsvRow(r))) : null;
+
+  for (const source of sources) {
+    if (source.contentHash ? source.contentHash === candidate.contentHash : candidate.text !== undefined && source.content === candidate.text) {
+      matches.push({ source, kind: 'exact' });
+      continue;
+    }
+    if (!rowSet || rowSet.size === 0 || !candidate.header || !isCsvSource(source) || !source.schema) continue;
+    // 先用入库时记录的列名过滤，避免逐个解析无关表格
+    if (!sameHeader(source.schema.columns.map(c => c.name), candidate.header)) continue;
+    const { records } = parseCsvTable(source.content);
+    if (records.length === 0) continue;
+    const sharedRows = records.filter(r => rowSet.has(stringifyCsvRow(r))).length;
+    const overlap = sharedRows / Math.min(records.length, rowSet.size);
+    if (overlap >= NEAR_DUPLICATE_RATIO) matches.push({ source, kind: 'near', sharedRows, overlap: Math.min(1, overlap) });
+  }
+  // 完全重复排在最前，其余按重叠比例降序
+  const rank = (m: DuplicateMatch) => m.kind === 'exact' ? 2 : m.overlap!;
+  return matches.sort((a, b) => rank(b) - rank(a));
+};
+
+/**
+ * 正文完全相同的数据源只保留第一份，避免同一内容在分析上下文中出现两次
+ */
+export const dedupeByContent = (sources: KnowledgeSource[]): KnowledgeSource[] => {
+  const seen = new Set<string>();
+  return sources.filter(s => {
+    if (seen.has(s.content)) return false;
+    seen.add(s.content);
+    return true;
+  });
+};
@@ -0,0 +1,103 @@
+export const SUPPORTED_ENCODINGS = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'gb18030', label: 'GB18030 / GBK' },
+  { id: 'big5', label: 'Big5' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+] as const;
+
+export type TextEncoding = typeof SUPPORTED_ENCODINGS[number]['id'];
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binaryString = '';
+  // 分块拼接，避免大文件展开参数时栈溢出
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binaryString);
+};
+
+const detectBom = (bytes: Uint8Array): TextEncoding | null => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  return null;
+};
+
+const isValidUtf8 = (bytes: Uint8Array): boolean => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 按 GB18030 字节结构扫描（双字节：81-FE + 40-7E/80-FE；四字节：81-FE 30-39 81-FE 30-39），
+ * 返回合法多字节序列占全部多字节序列的比例
+ */
+const gb18030Score = (bytes: Uint8Array): number => {
+  let valid = 0;
+  let invalid = 0;
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i];
+    if (b < 0x80) { i++; continue; }
+    const b1 = bytes[i + 1];
+    if (b >= 0x81 && b <= 0xFE && b1 !== undefined) {
+      if ((b1 >= 0x40 && b1 <= 0x7E) || (b1 >= 0x80 && b1 <= 0xFE)) {
+        valid++; i += 2; continue;
+      }
+      const b2 = bytes[i + 2];
+      const b3 = bytes[i + 3];
+      if (b1 >= 0x30 && b1 <= 0x39 && b2 >= 0x81 && b2 <= 0xFE && b3 >= 0x30 && b3 <= 0x39) {
+        valid++; i += 4; continue;
+      }
+    }
+    invalid++;
+    i++;
+  }
+  return valid + invalid === 0 ? 0 : valid / (valid + invalid);
+};
+
+const replacementRatio = (bytes: Uint8Array, encoding: TextEncoding): number => {
+  const text = new TextDecoder(encoding).decode(bytes);
+  if (text.length === 0) return 1;
+  let bad = 0;
+  for (const ch of text) if (ch === '\uFFFD') bad++;
+  return bad / text.length;
+};
+
+/**
+ * 编码探测：BOM > UTF-8 严格校验 > GB18030 结构启发式 > 按替换字符比例在 GB18030 / Big5 中择优
+ */
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  const bom = detectBom(bytes);
+  if (bom) return bom;
+  if (isValidUtf8(bytes)) return 'utf-8';
+  if (gb18030Score(bytes) >= 0.98) return 'gb18030';
+  return replacementRatio(bytes, 'big5') < replacementRatio(bytes, 'gb18030') ? 'big5' : 'gb18030';
+};
+
+export const decodeBytes = (bytes: Uint8Array, encoding: TextEncoding): string => {
+  return new TextDecoder(encoding).decode(bytes);
+};
+
+/**
+ * Base64 原始文件转文本；未指定编码时自动探测，返回实际使用的编码
+ */
+export const decodeBase64Text = (base64: string, encoding?: TextEncoding): { text: string, encoding: TextEncoding } => {
+  const bytes = base64ToBytes(base64);
+  const resolved = encoding || detectEncoding(bytes);
+  return { text: decodeBytes(bytes, resolved), encoding: resolved };
+};
@@ -0,0 +1,180 @@
+import { Entity } from "../types.ts";
+import { inferColumnType, ParsedTable, parseNumeric } from "./csvService.ts";
+
+// 跨文件关联视图在分析中使用的虚拟 Source_ID
+export const ENTITY_JOIN_ID = 'ENTITY_JOIN';
+// 关联视图行数上限：单个实体各文件匹配行的组合数，以及整张视图
+const MAX_ROWS_PER_ENTITY = 200;
+const MAX_JOIN_ROWS = 5000;
+
+export interface TableLinks {
+  rowEntities: (string | null)[]; // Entity id per record, null when unlinked or ambiguous
+  linked: number;
+  ambiguous: number[]; // Record indexes matching several entities equally well
+}
+
+export interface RegistryConflict {
+  label: string;
+  entities: Entity[];
+}
+
+export interface EntityJoin {
+  table: ParsedTable;
+  sources: { id: string, name: string, prefix: string }[];
+  entityCount: number;
+  truncated: boolean; // Row caps were hit; query the original sources for the full data
+}
+
+/**
+ * 名称比较前的规范化：全半角统一、去首尾空白、连续空白合并、忽略大小写；除此之外不做任何模糊处理
+ */
+export const normalizeLabel = (value: string): string =>
+  value.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const entityLabel = (entity: Entity): string =>
+  [entity.brand, entity.model, entity.trim].map(v => v.trim()).filter(Boolean).join(' ');
+
+/**
+ * 实体的完整名称写法：品牌+车型+版本、车型+版本（无版本时为品牌+车型）以及用户登记的别名
+ */
+const fullLabels = (entity: Entity): string[] => {
+  const labels = [entityLabel(entity), entity.trim.trim() ? `${entity.model} ${entity.trim}` : `${entity.brand} ${entity.model}`, ...entity.aliases];
+  return Array.from(new Set(labels.map(normalizeLabel).filter(Boolean)));
+};
+
+/**
+ * 注册表中的冲突：同一写法指向多个实体时，含该写法的行无法关联
+ */
+export const findRegistryConflicts = (entities: Entity[]): RegistryConflict[] => {
+  const byLabel = new Map<string, Entity[]>();
+  for (const entity of entities) {
+    for (const label of fullLabels(entity)) {
+      const list = byLabel.get(label);
+      if (!list) byLabel.set(label, [entity]);
+      else if (!list.includes(entity)) list.push(entity);
+    }
+  }
+  return Array.from(byLabel.entries())
+    .filter(([, list]) => list.length > 1)
+    .map(([label, list]) => ({ label, entities: list }));
+};
+
+/**
+ * 单行与实体的匹配强度：某个单元格完整等于实体名称或别名最强；
+ * 车型与版本分列时两列都须精确相等，品牌列相等时额外加分；未登记版本的实体仅凭车型匹配，强度最低
+ * 702 Max 与 702 Ultra 的版本单元格不同，因此永远不会关联到同一实体
+ */
+const matchScore = (cells: Set<string>, entity: Entity, labels: string[]): number => {
+  if (labels.some(l => cells.has(l))) return 4;
+  const model = normalizeLabel(entity.model);
+  if (!model || !cells.has(model)) return 0;
+  const brand = cells.has(normalizeLabel(entity.brand)) ? 1 : 0;
+  const trim = normalizeLabel(entity.trim);
+  if (trim) return cells.has(trim) ? 2 + brand : 0;
+  return 1 + brand * 0.5;
+};
+
+/**
+ * 将表格每条记录关联到注册表中的实体；得分最高的实体唯一时才关联，并列时记为歧义、不做关联
+ */
+export const linkTableRows = (table: ParsedTable, entities: Entity[]): TableLinks => {
+  const candidates = entities.filter(e => e.model.trim() || e.aliases.some(a => a.trim())).map(e => ({ entity: e, labels: fullLabels(e) }));
+  const ambiguous: number[] = [];
+  let linked = 0;
+
+  const rowEntities = table.records.map((record, index) => {
+    const cells = new Set(record.map(normalizeLabel).filter(Boolean));
+    let best: Entity[] = [];
+    let bestScore = 0;
+    for (const { entity, labels } of candidates) {
+      const score = matchScore(cells, entity, labels);
+      if (score === 0 || score < bestScore) continue;
+      if (score > bestScore) { best = [entity]; bestScore = score; }
+      else best.push(entity);
+    }
+    if (best.length === 0) return null;
+    if (best.length > 1) { ambiguous.push(index); return null; }
+    linked++;
+    return best[0].id;
+  });
+  return { rowEntities, linked, ambiguous };
+};
+
+/**
+ * 关联视图以逗号为千分位解析数值；分号分隔表格中以逗号为小数点的数值列（如 1,5）先转换为标准写法
+ */
+const joinCell = (table: ParsedTable, row: number, column: number): string => {
+  const cell = table.records[row][column] ?? '';
+  if (table.schema.delimiter !== ';' || !cell.includes(',') || !['number', 'currency'].includes(table.schema.columns[column]?.type)) return cell;
+  const value = parseNumeric(cell, ';');
+  return value === null ? cell : String(value);
+};
+
+const sourcePrefix = (name: string, taken: Set<string>): string => {
+  const base = name.replace(/\.[^.]+$/, '').trim() || 'Source';
+  let prefix = base;
+  for (let n = 2; taken.has(prefix); n++) prefix = `${base}#${n}`;
+  taken.add(prefix);
+  return prefix;
+};
+
+/**
+ * 按实体把多张表格横向拼接成一张关联视图：每个实体各文件匹配行两两组合，
+ * 缺少匹配的文件留空；各文件列以「文件名.列名」命名，并保留原始 [Row_N] 行号供引用
+ * 少于两个文件有关联行时无法跨文件关联，返回 null
+ */
+export const buildEntityJoin = (
+  tables: Map<string, { name: string, table: ParsedTable }>,
+  entities: Entity[]
+): EntityJoin | null => {
+  if (entities.length === 0) return null;
+  const taken = new Set<string>();
+  const linkedTables = Array.from(tables.entries())
+    .map(([id, { name, table }]) => ({ id, name, table, links: linkTableRows(table, entities) }))
+    .filter(t => t.links.linked > 0)
+    .map(t => ({ ...t, prefix: sourcePrefix(t.name, taken) }));
+  if (linkedTables.length < 2) return null;
+
+  const header = ['实体', '品牌', '车型', '版本', ...linkedTables.flatMap(t => [`${t.prefix}.Row`, ...t.table.header.map(col => `${t.prefix}.${col}`)])];
+  const records: string[][] = [];
+  let entityCount = 0;
+  let truncated = false;
+
+  for (const entity of entities) {
+    // 每个文件中关联到该实体的行号；未关联的文件以 -1 占位，输出空白列
+    const perTable = linkedTables.map(t => {
+      const rows = t.links.rowEntities.flatMap((id, i) => id === entity.id ? [i] : []);
+      return rows.length > 0 ? rows : [-1];
+    });
+    if (perTable.every(rows => rows[0] === -1)) continue;
+    entityCount++;
+
+    let combos: number[][] = [[]];
+    for (const rows of perTable) {
+      combos = combos.flatMap(combo => rows.map(r => [...combo, r]));
+      if (combos.length > MAX_ROWS_PER_ENTITY) { combos = combos.slice(0, MAX_ROWS_PER_ENTITY); truncated = true; }
+    }
+    for (const combo of combos) {
+      if (records.length >= MAX_JOIN_ROWS) { truncated = true; break; }
+      records.push([
+        entityLabel(entity), entity.brand, entity.model, entity.trim,
+        ...combo.flatMap((row, k) => {
+          const { table } = linkedTables[k];
+          return row === -1 ? table.header.map(() => '').concat('') : [String(row + 1), ...table.header.map((_, c) => joinCell(table, row, c))];
+        }),
+      ]);
+    }
+  }
+
+  const schema = {
+    columns: header.map((name, c) => ({ name, type: inferColumnType(records.map(r => r[c])) })),
+    rowCount: records.length,
+    delimiter: ',',
+  };
+  return {
+    table: { header, records, schema },
+    sources: linkedTables.map(({ id, name, prefix }) => ({ id, name, prefix })),
+    entityCount,
+    truncated,
+  };
+};
@@ -0,0 +1,120 @@
+import { Content, GoogleGenAI, Part } from "@google/genai";
+import { LlmMessage, LlmProvider, LlmToolCall } from "../types.ts";
+
+/**
+ * 将通用消息转换为 Gemini Content；连续的工具结果合并为同一轮 user 消息
+ */
+const toContents = (messages: LlmMessage[]): Content[] => {
+  const contents: Content[] = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      const part: Part = { functionResponse: { id: m.toolCallId, name: m.toolName, response: JSON.parse(m.text || '{}') } };
+      const last = contents[contents.length - 1];
+      if (last?.role === 'user' && last.parts?.every(p => p.functionResponse)) last.parts.push(part);
+      else contents.push({ role: 'user', parts: [part] });
+      continue;
+    }
+    if (m.role === 'assistant') {
+      // 回传原始 part 以保留思考签名
+      const parts = (m.native as Part[] | undefined) || [
+        ...(m.text ? [{ text: m.text }] : []),
+        ...(m.toolCalls || []).map(c => ({ functionCall: { id: c.id, name: c.name, args: c.args } }))
+      ];
+      contents.push({ role: 'model', parts });
+      continue;
+    }
+    contents.push({
+      role: 'user',
+      parts: [
+        ...(m.attachments || []).map(a => ({ inlineData: { data: a.data, mimeType: a.mimeType } })),
+        ...(m.text ? [{ text: m.text }] : [])
+      ]
+    });
+  }
+  return contents;
+};
+
+/**
+ * Gemini 提供方：apiKey 在每次调用时读取，便于运行时切换密钥
+ */
+export const createGeminiProvider = (getApiKey: () => string | undefined): LlmProvider => {
+  let client: { key: string | undefined, ai: GoogleGenAI } | null = null;
+  const getClient = () => {
+    const key = getApiKey();
+    if (!client || client.key !== key) client = { key, ai: new GoogleGenAI({ apiKey: key }) };
+    return client.ai;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    nativePdf: true,
+    suggestedModels: {
+      analysis: ['gemini-3-pro-preview', 'gemini-3-flash-preview'],
+      batch: ['gemini-3-flash-preview', 'gemini-3-pro-preview'],
+      summary: ['gemini-3-flash-preview'],
+      vision: ['gemini-3-flash-preview', 'gemini-3-pro-preview'],
+      image: ['gemini-3-pro-image-preview'],
+    },
+
+    generate: async (request, onEvent) => {
+      const stream = await getClient().models.generateContentStream({
+        model: request.model,
+        contents: toContents(request.messages),
+        config: {
+          temperature: request.temperature,
+          abortSignal: request.signal,
+          ...(request.thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget: request.thinkingBudget, includeThoughts: true } } : {}),
+          ...(request.tools?.length ? {
+            tools: [{ functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+          } : {}),
+          ...(request.jsonSchema ? { responseMimeType: "application/json", responseJsonSchema: request.jsonSchema } : {})
+        }
+      });
+
+      const parts: Part[] = [];
+      let text = "";
+      for await (const chunk of stream) {
+        for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+          parts.push(part);
+          if (part.thought) {
+            onEvent?.({ type: 'thinking' });
+          } else if (part.text) {
+            text += part.text;
+            onEvent?.({ type: 'text', text: part.text });
+          }
+        }
+      }
+
+      const toolCalls: LlmToolCall[] = parts
+        .filter(p => p.functionCall)
+        .map(p => ({ id: p.functionCall!.id, name: p.functionCall!.name || '', args: p.functionCall!.args || {} }));
+      return { text, toolCalls, native: parts };
+    },
+
+    generateImage: async ({ model, prompt, image }) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: {
+          parts: [
+            ...(image ? [{ inlineData: { data: image.data, mimeType: image.mimeType } }] : []),
+            { text: prompt }
+          ]
+        },
+        config: { imageConfig: { aspectRatio: "1:1", imageSize: "1K" } }
+      });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+      }
+      return null;
+    },
+
+    listModels: async () => {
+      const names: string[] = [];
+      for await (const model of await getClient().models.list()) {
+        if (model.name) names.push(model.name.replace(/^models\//, ''));
+      }
+      return names;
+    },
+  };
+};
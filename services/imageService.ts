@@ -0,0 +1,58 @@
+export interface PreparedImage {
+  data: string; // Base64 JPEG sent to the vision model
+  mimeType: string;
+  thumbnail: string; // Small JPEG data URL kept on the source
+}
+
+// 缩略图最长边（像素）
+const THUMBNAIL_SIZE = 240;
+// 提交识别的图片最长边；手机照片原图过大，缩小后仍足以辨认表格文字
+const MAX_RECOGNITION_SIZE = 2048;
+
+export const isImageFile = (file: Pick<File, 'name' | 'type'>) =>
+  file.type.startsWith('image/') || /\.(png|jpe?g|webp|gif|bmp)$/i.test(file.name);
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('图片格式无法识别'));
+  img.src = url;
+});
+
+const renderScaled = (img: HTMLImageElement, maxSide: number, quality: number) => {
+  const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d')!;
+  // 透明截图转 JPEG 时铺白底，避免背景变黑
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * 在本地生成缩略图与识别用图片（统一转为 JPEG，超大图按比例缩小）
+ */
+export const prepareImage = async (dataUrl: string): Promise<PreparedImage> => {
+  const img = await loadImage(dataUrl);
+  return {
+    data: renderScaled(img, MAX_RECOGNITION_SIZE, 0.92).split(',')[1],
+    mimeType: 'image/jpeg',
+    thumbnail: renderScaled(img, THUMBNAIL_SIZE, 0.8),
+  };
+};
+
+/**
+ * 取出剪贴板中的图片；截图通常统一命名为 image.png，这里按时间重命名便于在知识库中区分
+ */
+export const imagesFromClipboard = (data: DataTransfer | null): File[] => {
+  const images = Array.from(data?.files || []).filter(isImageFile);
+  const stamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+  return images.map((file, i) => new File(
+    [file],
+    `截图_${stamp}${images.length > 1 ? `_${i + 1}` : ''}.${file.type.split('/')[1] || 'png'}`,
+    { type: file.type }
+  ));
+};
@@ -0,0 +1,104 @@
+import { IngestJob } from "../types.ts";
+
+// 单个任务最多尝试的次数（含首次）
+const MAX_ATTEMPTS = 5;
+// 指数退避：首次等待 2 秒，每次翻倍，最长 1 分钟，并加入 ±25% 抖动避免同时重试
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+
+export interface IngestQueueOptions {
+  run: (sourceId: string) => Promise<void>;
+  getConcurrency: () => number;
+  onChange: (jobs: IngestJob[]) => void;
+  onFailed: (sourceId: string, reason: string) => void; // Called once retries are exhausted or the error is not retryable
+}
+
+export interface IngestQueue {
+  enqueue: (sourceId: string, label: string) => void;
+  remove: (sourceId: string) => void;
+  clearFinished: () => void;
+}
+
+/**
+ * 限流（429）与服务端错误（5xx）可以重试；状态码来自 Gemini SDK 的 ApiError 或各服务附带的 status
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|RESOURCE_EXHAUSTED|UNAVAILABLE)\b/.test(message);
+};
+
+export const backoffDelay = (attempt: number) =>
+  Math.round(Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5));
+
+/**
+ * 导入任务队列：按并发上限依次执行，可重试的错误按指数退避重新排队
+ * 同一数据源在排队、执行或等待重试期间重复入队会被忽略
+ */
+export const createIngestQueue = ({ run, getConcurrency, onChange, onFailed }: IngestQueueOptions): IngestQueue => {
+  let jobs: IngestJob[] = [];
+  let active = 0;
+
+  const find = (sourceId: string) => jobs.find(j => j.sourceId === sourceId);
+  const update = (sourceId: string, patch: Partial<IngestJob>) => {
+    jobs = jobs.map(j => j.sourceId === sourceId ? { ...j, ...patch } : j);
+    onChange(jobs);
+  };
+
+  const start = async (job: IngestJob) => {
+    active++;
+    const attempts = job.attempts + 1;
+    update(job.sourceId, { status: 'running', attempts, retryAt: undefined });
+    try {
+      await run(job.sourceId);
+      if (find(job.sourceId)) update(job.sourceId, { status: 'done', error: undefined });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      // 任务已被移除（数据源已删除）时丢弃结果
+      if (!find(job.sourceId)) return;
+      if (isRetryableError(error) && attempts < MAX_ATTEMPTS) {
+        const delay = backoffDelay(attempts);
+        update(job.sourceId, { status: 'waiting', retryAt: Date.now() + delay, error: reason });
+        setTimeout(() => {
+          if (find(job.sourceId)?.status !== 'waiting') return;
+          update(job.sourceId, { status: 'queued' });
+          pump();
+        }, delay);
+      } else {
+        update(job.sourceId, { status: 'error', error: reason });
+        onFailed(job.sourceId, reason);
+      }
+    } finally {
+      active--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (active < Math.max(1, getConcurrency())) {
+      const next = jobs.find(j => j.status === 'queued');
+      if (!next) return;
+      start(next);
+    }
+  };
+
+  return {
+    enqueue: (sourceId, label) => {
+      const existing = find(sourceId);
+      if (existing && existing.status !== 'done' && existing.status !== 'error') return;
+      jobs = [...jobs.filter(j => j.sourceId !== sourceId), { sourceId, label, status: 'queued', attempts: 0 }];
+      onChange(jobs);
+      pump();
+    },
+    remove: (sourceId) => {
+      if (!find(sourceId)) return;
+      jobs = jobs.filter(j => j.sourceId !== sourceId);
+      onChange(jobs);
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(j => j.status !== 'done');
+      onChange(jobs);
+    },
+  };
+};
@@ -0,0 +1,33 @@
+import { LlmProvider, LlmTask } from "../types.ts";
+import { createGeminiProvider } from "./geminiProvider.ts";
+import { createOpenAICompatibleProvider } from "./openaiProvider.ts";
+import { getGeminiApiKey, getSettings } from "./settingsService.ts";
+
+const providers = new Map<string, LlmProvider>();
+
+/**
+ * 注册模型提供方；同 id 覆盖已有实现（测试时可注入伪造的提供方）
+ */
+export const registerProvider = (provider: LlmProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProviders = (): LlmProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): LlmProvider | undefined => providers.get(id);
+
+/**
+ * 按设置解析某项任务使用的提供方与模型
+ */
+export const resolveTask = (task: LlmTask): { provider: LlmProvider, model: string } => {
+  const { providerId, model } = getSettings().tasks[task];
+  const provider = providers.get(providerId);
+  if (!provider) throw new Error(`未注册的模型提供方：${providerId}`);
+  return { provider, model };
+};
+
+registerProvider(createGeminiProvider(getGeminiApiKey));
+registerProvider(createOpenAICompatibleProvider(() => {
+  const { openaiBaseUrl, openaiApiKey } = getSettings();
+  return { baseUrl: openaiBaseUrl, apiKey: openaiApiKey };
+}));
@@ -0,0 +1,206 @@
+import { LlmMessage, LlmProvider, LlmToolCall } from "../types.ts";
+import { base64ToBytes } from "./encodingService.ts";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+  apiKey?: string;
+}
+
+interface ChatMessagePayload {
+  role: 'user' | 'assistant' | 'tool';
+  content: string | null | { type: string, [key: string]: unknown }[];
+  tool_calls?: { id: string, type: 'function', function: { name: string, arguments: string } }[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+/**
+ * 将通用消息转换为 Chat Completions 格式；本地端点通常不支持 PDF，非图片附件被忽略
+ */
+const toChatMessages = (messages: LlmMessage[]): ChatMessagePayload[] => messages.map(m => {
+  if (m.role === 'tool') {
+    return { role: 'tool', content: m.text || '', tool_call_id: m.toolCallId || m.toolName, name: m.toolName };
+  }
+  if (m.role === 'assistant') {
+    return {
+      role: 'assistant',
+      content: m.text || null,
+      ...(m.toolCalls?.length ? {
+        tool_calls: m.toolCalls.map(c => ({
+          id: c.id || c.name, type: 'function' as const, function: { name: c.name, arguments: JSON.stringify(c.args) }
+        }))
+      } : {})
+    };
+  }
+  const images = (m.attachments || []).filter(a => a.mimeType.startsWith('image/'));
+  if (images.length === 0) return { role: 'user', content: m.text || '' };
+  return {
+    role: 'user',
+    content: [
+      ...images.map(a => ({ type: 'image_url', image_url: { url: `data:${a.mimeType};base64,${a.data}` } })),
+      ...(m.text ? [{ type: 'text', text: m.text }] : [])
+    ]
+  };
+});
+
+interface StreamToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string, arguments?: string };
+}
+
+// Chat Completions 流式分片；Ollama 与 llama.cpp 在生成中途出错时改为发送 error
+interface StreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      reasoning_content?: string; // llama.cpp / vLLM
+      reasoning?: string; // Ollama
+      tool_calls?: StreamToolCallDelta[];
+    };
+  }[];
+  error?: string | { message?: string, code?: number | string, type?: string };
+}
+
+const readError = async (response: Response) => {
+  const body = await response.text().catch(() => '');
+  // 附带 HTTP 状态码，供导入队列判断是否退避重试
+  return Object.assign(new Error(`${response.status} ${response.statusText}${body ? `：${body.slice(0, 300)}` : ''}`), { status: response.status });
+};
+
+/**
+ * 流中途返回的错误事件转换为异常；未给出数字状态码时按服务端错误（500）处理，由导入队列决定是否重试
+ */
+const streamError = (error: NonNullable<StreamChunk['error']>) => {
+  const message = typeof error === 'string' ? error : error.message || error.type || JSON.stringify(error);
+  const status = typeof error === 'object' && typeof error.code === 'number' ? error.code : 500;
+  return Object.assign(new Error(`${status} ${message}`), { status });
+};
+
+const parseEventLine = (line: string): StreamChunk | null => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return null;
+  const data = trimmed.replace(/^data:\s*/, '');
+  if (!data || data === '[DONE]') return null;
+  try {
+    return JSON.parse(data) as StreamChunk;
+  } catch {
+    // 无法解析的 data 行（保活消息或截断的分片）直接忽略
+    return null;
+  }
+};
+
+/**
+ * 逐条读取 SSE 流中的 data 事件；流结束时处理缓冲区中剩余的最后一行，收到 error 事件时抛出
+ */
+async function* readServerEvents(response: Response): AsyncGenerator<StreamChunk> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = done ? "" : lines.pop() || "";
+    for (const line of lines) {
+      const chunk = parseEventLine(line);
+      if (!chunk) continue;
+      if (chunk.error) throw streamError(chunk.error);
+      yield chunk;
+    }
+    if (done) break;
+  }
+}
+
+/**
+ * OpenAI 兼容提供方（Ollama、llama.cpp、vLLM 等本地服务），数据不离开内网
+ */
+export const createOpenAICompatibleProvider = (getConfig: () => OpenAICompatibleConfig): LlmProvider => {
+  const endpoint = (path: string) => `${getConfig().baseUrl.replace(/\/+$/, '')}${path}`;
+  const headers = (json = true): Record<string, string> => {
+    const { apiKey } = getConfig();
+    return { ...(json ? { 'Content-Type': 'application/json' } : {}), ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) };
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: 'OpenAI 兼容（本地 Ollama / llama.cpp）',
+    suggestedModels: {
+      analysis: ['qwen3:32b', 'llama3.3:70b'],
+      batch: ['qwen3:8b', 'qwen3:32b'],
+      summary: ['qwen3:8b'],
+      vision: ['qwen2.5vl:7b', 'qwen2.5vl:32b'],
+      image: [],
+    },
+
+    generate: async (request, onEvent) => {
+      const response = await fetch(endpoint('/chat/completions'), {
+        method: 'POST',
+        headers: headers(),
+        signal: request.signal,
+        body: JSON.stringify({
+          model: request.model,
+          messages: toChatMessages(request.messages),
+          stream: true,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.tools?.length ? {
+            tools: request.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+          } : {}),
+          ...(request.jsonSchema ? { response_format: { type: 'json_object' } } : {})
+        })
+      });
+      if (!response.ok || !response.body) throw await readError(response);
+
+      let text = "";
+      // 工具调用按 index 分片到达，参数字符串需拼接后再解析
+      const pending: { id?: string, name: string, arguments: string }[] = [];
+      for await (const event of readServerEvents(response)) {
+        const delta = event.choices?.[0]?.delta;
+        if (!delta) continue;
+        if (delta.reasoning_content || delta.reasoning) onEvent?.({ type: 'thinking' });
+        if (delta.content) {
+          text += delta.content;
+          onEvent?.({ type: 'text', text: delta.content });
+        }
+        for (const call of delta.tool_calls || []) {
+          const slot = pending[call.index ?? pending.length] ||= { name: '', arguments: '' };
+          if (call.id) slot.id = call.id;
+          if (call.function?.name) slot.name += call.function.name;
+          if (call.function?.arguments) slot.arguments += call.function.arguments;
+        }
+      }
+
+      const toolCalls: LlmToolCall[] = pending.filter(Boolean).map((c, i) => {
+        let args: Record<string, unknown> = {};
+        try { args = c.arguments ? JSON.parse(c.arguments) : {}; } catch { args = {}; }
+        return { id: c.id || `call_${i}`, name: c.name, args };
+      });
+      return { text, toolCalls };
+    },
+
+    generateImage: async ({ model, prompt, image }) => {
+      let response: Response;
+      if (image) {
+        const form = new FormData();
+        form.append('image', new Blob([base64ToBytes(image.data)], { type: image.mimeType }), 'image.png');
+        form.append('model', model);
+        form.append('prompt', prompt);
+        response = await fetch(endpoint('/images/edits'), { method: 'POST', headers: headers(false), body: form });
+      } else {
+        response = await fetch(endpoint('/images/generations'), {
+          method: 'POST', headers: headers(), body: JSON.stringify({ model, prompt, size: '1024x1024' })
+        });
+      }
+      if (!response.ok) throw await readError(response);
+      const result = (await response.json()).data?.[0];
+      if (result?.b64_json) return `data:image/png;base64,${result.b64_json}`;
+      return result?.url || null;
+    },
+
+    listModels: async () => {
+      const response = await fetch(endpoint('/models'), { headers: headers(false) });
+      if (!response.ok) throw await readError(response);
+      return ((await response.json()).data || []).map((m: { id: string }) => m.id);
+    },
+  };
+};
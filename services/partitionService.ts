@@ -0,0 +1,98 @@
+import { Partition } from "../types.ts";
+
+export interface PartitionNode {
+  partition: Partition;
+  depth: number;
+}
+
+// 系统分区不可重命名、删除、移动或嵌套
+export const isSystemPartition = (partition: Partition) => !!partition.isSystem;
+
+const childrenOf = (partitions: Partition[], parentId?: string) =>
+  partitions.filter(p => (p.parentId || undefined) === parentId);
+
+/**
+ * 按树形展开分区：同级保持数组中的顺序，子分区紧跟在上级之后
+ * 上级已不存在的分区视为顶级分区
+ */
+export const flattenPartitionTree = (partitions: Partition[]): PartitionNode[] => {
+  const ids = new Set(partitions.map(p => p.id));
+  const normalized = partitions.map(p => p.parentId && !ids.has(p.parentId) ? { ...p, parentId: undefined } : p);
+  const result: PartitionNode[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const partition of childrenOf(normalized, parentId)) {
+      result.push({ partition: partitions.find(p => p.id === partition.id)!, depth });
+      visit(partition.id, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+  return result;
+};
+
+/**
+ * 分区及其全部下级分区的 id
+ */
+export const getDescendantIds = (partitions: Partition[], id: string): string[] => {
+  const result = [id];
+  for (let i = 0; i < result.length; i++) {
+    result.push(...partitions.filter(p => p.parentId === result[i]).map(p => p.id));
+  }
+  return result;
+};
+
+/**
+ * 分析范围：勾选的分区自动包含其下级分区
+ */
+export const expandPartitionScope = (partitions: Partition[], ids: string[]): Set<string> =>
+  new Set(ids.flatMap(id => getDescendantIds(partitions, id)));
+
+/**
+ * 从顶级到该分区的路径，用于面包屑与“销量 / 2024 / Q3”式的标签
+ */
+export const getPartitionPath = (partitions: Partition[], id: string): Partition[] => {
+  const path: Partition[] = [];
+  let current = partitions.find(p => p.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? partitions.find(p => p.id === current!.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * 分析范围内的分区及其全部上级分区（按树形顺序），上级分区的规则同样适用于下级
+ */
+export const collectScopePartitions = (partitions: Partition[], scope: Iterable<string>): Partition[] => {
+  const ids = new Set(Array.from(scope).flatMap(id => getPartitionPath(partitions, id).map(p => p.id)));
+  return flattenPartitionTree(partitions).map(n => n.partition).filter(p => ids.has(p.id));
+};
+
+export const getPartitionLabel = (partitions: Partition[], id: string) =>
+  getPartitionPath(partitions, id).map(p => p.name).join(' / ');
+
+/**
+ * 与同级的上一个 / 下一个分区交换位置；系统分区不参与排序
+ */
+export const movePartition = (partitions: Partition[], id: string, direction: -1 | 1): Partition[] => {
+  const target = partitions.find(p => p.id === id);
+  if (!target || isSystemPartition(target)) return partitions;
+  const siblings = childrenOf(partitions, target.parentId).filter(p => !isSystemPartition(p));
+  const swapWith = siblings[siblings.indexOf(target) + direction];
+  if (!swapWith) return partitions;
+  const next = [...partitions];
+  const a = next.indexOf(target);
+  const b = next.indexOf(swapWith);
+  [next[a], next[b]] = [next[b], next[a]];
+  return next;
+};
+
+/**
+ * 新建分区；顶级分区插在“未分类”之前，保持系统分区位于列表末尾
+ */
+export const addPartition = (partitions: Partition[], name: string, parentId?: string): Partition[] => {
+  const partition: Partition = { id: Math.random().toString(36).substr(2, 9), name: name.trim(), ...(parentId ? { parentId } : {}) };
+  const tail = partitions.findIndex(p => p.id === 'uncategorized');
+  return parentId || tail === -1
+    ? [...partitions, partition]
+    : [...partitions.slice(0, tail), partition, ...partitions.slice(tail)];
+};
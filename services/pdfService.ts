@@ -0,0 +1,140 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+// 平均每页少于该字符数即视为无文字层（扫描件）
+const MIN_CHARS_PER_PAGE = 10;
+
+export type ExtractionErrorCode = 'encrypted' | 'scanned' | 'invalid';
+
+/**
+ * 文档无法提取正文时抛出，message 即展示给用户的失败原因
+ */
+export class DocumentExtractionError extends Error {
+  constructor(message: string, public readonly code: ExtractionErrorCode) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+  }
+}
+
+interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 按基线 y 坐标把文本片段归并成行，行内按 x 排序
+ */
+const groupIntoLines = (items: PositionedText[]): PositionedText[][] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PositionedText[][] = [];
+  for (const item of sorted) {
+    const current = lines[lines.length - 1];
+    const tolerance = Math.max(2, item.height * 0.5);
+    if (current && Math.abs(current[0].y - item.y) <= tolerance) {
+      current.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+};
+
+/**
+ * 行内片段间距明显大于字宽时视为列分隔，返回单元格文本
+ */
+const splitIntoCells = (line: PositionedText[]): string[] => {
+  const cells: string[] = [];
+  let buffer = '';
+  let prevEnd: number | null = null;
+  for (const item of line) {
+    const charWidth = item.str.length > 0 ? item.width / item.str.length : item.height;
+    const gap = prevEnd === null ? 0 : item.x - prevEnd;
+    if (prevEnd !== null && gap > Math.max(charWidth * 2, 8)) {
+      cells.push(buffer.trim());
+      buffer = '';
+    }
+    buffer += item.str;
+    prevEnd = item.x + item.width;
+  }
+  cells.push(buffer.trim());
+  return cells.filter(c => c.length > 0);
+};
+
+const toTableRow = (cells: string[]) => `| ${cells.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`;
+
+/**
+ * 将一页的行输出为文本：连续两行以上、列数一致的多列行按表格行输出
+ */
+const renderPage = (lines: string[][]): string => {
+  const out: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const width = lines[i].length;
+    let j = i;
+    while (width >= 2 && j < lines.length && lines[j].length === width) j++;
+
+    if (j - i >= 2) {
+      const block = lines.slice(i, j);
+      out.push(toTableRow(block[0]));
+      out.push(toTableRow(block[0].map(() => '---')));
+      block.slice(1).forEach(cells => out.push(toTableRow(cells)));
+      i = j;
+    } else {
+      out.push(lines[i].join(' '));
+      i++;
+    }
+  }
+  return out.join('\n');
+};
+
+/**
+ * 本地解析 PDF 文字层，输出带 [Page_N] 页码标记的正文，表格区域以 Markdown 表格行保留结构
+ */
+export const extractPdfText = async (data: Uint8Array): Promise<{ text: string, pageCount: number }> => {
+  let pdf: pdfjsLib.PDFDocumentProxy;
+  try {
+    pdf = await pdfjsLib.getDocument({ data }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new DocumentExtractionError('PDF 已加密，需要密码才能读取', 'encrypted');
+    }
+    throw new DocumentExtractionError('PDF 文件损坏或格式无法识别', 'invalid');
+  }
+
+  try {
+    const pages: string[] = [];
+    let textChars = 0;
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = content.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+        .map(item => ({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3])
+        }));
+
+      textChars += items.reduce((sum, item) => sum + item.str.replace(/\s/g, '').length, 0);
+      const lines = groupIntoLines(items).map(splitIntoCells).filter(cells => cells.length > 0);
+      pages.push(`[Page_${pageNumber}]\n${renderPage(lines)}`);
+      page.cleanup();
+    }
+
+    if (textChars < pdf.numPages * MIN_CHARS_PER_PAGE) {
+      throw new DocumentExtractionError('PDF 未包含可提取的文字层（疑似扫描件），请先进行 OCR 处理', 'scanned');
+    }
+
+    return { text: pages.join('\n\n'), pageCount: pdf.numPages };
+  } finally {
+    pdf.destroy();
+  }
+};
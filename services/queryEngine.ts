@@ -0,0 +1,150 @@
+import { AggregateOp, QueryAggregate, QueryFilter, QueryResult, TableQuery } from "../types.ts";
+import { ParsedTable, parseNumeric } from "./csvService.ts";
+
+// 明细查询（无聚合）默认返回的最大行数
+const DEFAULT_ROW_LIMIT = 200;
+// 结果中回传的命中行号上限
+const MAX_MATCHED_ROWS = 1000;
+
+const OP_LABELS: Record<QueryFilter['op'], string> = {
+  eq: '=', neq: '≠', contains: '包含', gt: '>', gte: '≥', lt: '<', lte: '≤', in: '属于',
+};
+
+interface IndexedRecord {
+  rowNumber: number; // 1-based, same as [Row_N]
+  cells: string[];
+}
+
+const resolveColumn = (table: ParsedTable, name: string): number => {
+  let index = table.header.indexOf(name);
+  if (index < 0) {
+    const normalized = name.trim().toLowerCase();
+    index = table.header.findIndex(h => h.trim().toLowerCase() === normalized);
+  }
+  if (index < 0) throw new Error(`列不存在：${name}（可用列：${table.header.join('、')}）`);
+  return index;
+};
+
+/**
+ * 比较两个单元格：均可解析为数值时按数值比较，否则按字符串比较；delimiter 决定逗号是小数点还是千分位
+ */
+const compareValues = (a: string, b: string, delimiter: string): number => {
+  const na = parseNumeric(a, delimiter);
+  const nb = parseNumeric(b, delimiter);
+  if (na !== null && nb !== null) return na - nb;
+  return a.trim().localeCompare(b.trim(), 'zh-Hans-CN');
+};
+
+// 等值判断为精确匹配，不做模糊合并（702 Max 与 702 Ultra 视为不同取值）
+const isEqual = (cell: string, value: string, delimiter: string): boolean => {
+  const nc = parseNumeric(cell, delimiter);
+  const nv = parseNumeric(value, delimiter);
+  if (nc !== null && nv !== null) return nc === nv;
+  return cell.trim() === value.trim();
+};
+
+const matchesFilter = (cell: string, filter: QueryFilter, delimiter: string): boolean => {
+  const value = filter.value ?? '';
+  switch (filter.op) {
+    case 'eq': return isEqual(cell, value, delimiter);
+    case 'neq': return !isEqual(cell, value, delimiter);
+    case 'contains': return cell.includes(value);
+    case 'in': return (filter.values || []).some(v => isEqual(cell, v, delimiter));
+    case 'gt': return cell.trim() !== '' && compareValues(cell, value, delimiter) > 0;
+    case 'gte': return cell.trim() !== '' && compareValues(cell, value, delimiter) >= 0;
+    case 'lt': return cell.trim() !== '' && compareValues(cell, value, delimiter) < 0;
+    case 'lte': return cell.trim() !== '' && compareValues(cell, value, delimiter) <= 0;
+  }
+};
+
+const aggregateLabel = (agg: QueryAggregate) => agg.column ? `${agg.op}(${agg.column})` : `${agg.op}(*)`;
+
+const computeAggregate = (op: AggregateOp, values: string[] | null, rowCount: number, delimiter: string): number | string => {
+  if (op === 'count') return values ? values.filter(v => v.trim() !== '').length : rowCount;
+  const numbers = (values || []).map(v => parseNumeric(v, delimiter)).filter((n): n is number => n !== null);
+  if (numbers.length === 0) return '';
+  switch (op) {
+    case 'sum': return numbers.reduce((a, b) => a + b, 0);
+    case 'avg': return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    case 'min': return numbers.reduce((a, b) => Math.min(a, b));
+    case 'max': return numbers.reduce((a, b) => Math.max(a, b));
+  }
+};
+
+/**
+ * 在已解析的 CSV 表上执行确定性查询：筛选 → 分组 → 聚合 → 排序 → 截取前 N
+ * 未指定聚合时返回筛选后的明细行（首列为行号）
+ */
+export const runTableQuery = (table: ParsedTable, query: TableQuery): QueryResult => {
+  const { delimiter } = table.schema;
+  const filters = (query.filters || []).map(f => ({ filter: f, index: resolveColumn(table, f.column) }));
+  const records: IndexedRecord[] = table.records
+    .map((cells, idx) => ({ rowNumber: idx + 1, cells }))
+    .filter(r => filters.every(({ filter, index }) => matchesFilter(r.cells[index] || '', filter, delimiter)));
+
+  const aggregates = query.aggregates || [];
+  const groupBy = (query.groupBy || []).map(name => ({ name, index: resolveColumn(table, name) }));
+  let columns: string[];
+  let rows: (string | number)[][];
+
+  if (aggregates.length === 0 && groupBy.length === 0) {
+    columns = ['Row', ...table.header];
+    rows = records.map(r => [r.rowNumber, ...table.header.map((_, i) => r.cells[i] || '')]);
+  } else {
+    const aggIndexes = aggregates.map(a => a.column ? resolveColumn(table, a.column) : -1);
+    const groups = new Map<string, IndexedRecord[]>();
+    for (const record of records) {
+      const key = JSON.stringify(groupBy.map(g => (record.cells[g.index] || '').trim()));
+      const bucket = groups.get(key);
+      if (bucket) bucket.push(record);
+      else groups.set(key, [record]);
+    }
+    if (groups.size === 0 && groupBy.length === 0) groups.set('[]', []);
+
+    columns = [...groupBy.map(g => g.name), ...aggregates.map(aggregateLabel)];
+    rows = Array.from(groups.entries()).map(([key, bucket]) => [
+      ...(JSON.parse(key) as string[]),
+      ...aggregates.map((agg, i) => computeAggregate(
+        agg.op,
+        aggIndexes[i] >= 0 ? bucket.map(r => r.cells[aggIndexes[i]] || '') : null,
+        bucket.length,
+        delimiter
+      ))
+    ]);
+  }
+
+  if (query.orderBy) {
+    const orderIndex = columns.indexOf(query.orderBy.column) >= 0
+      ? columns.indexOf(query.orderBy.column)
+      : columns.findIndex(c => c.toLowerCase() === query.orderBy!.column.trim().toLowerCase());
+    if (orderIndex < 0) throw new Error(`排序列不在结果中：${query.orderBy.column}（结果列：${columns.join('、')}）`);
+    const direction = query.orderBy.direction === 'asc' ? 1 : -1;
+    rows.sort((a, b) => direction * compareValues(String(a[orderIndex]), String(b[orderIndex]), delimiter));
+  }
+
+  const limit = query.limit ?? (aggregates.length === 0 ? DEFAULT_ROW_LIMIT : undefined);
+  if (limit !== undefined && limit >= 0) rows = rows.slice(0, limit);
+
+  return {
+    columns,
+    rows,
+    matchedRowCount: records.length,
+    matchedRows: records.slice(0, MAX_MATCHED_ROWS).map(r => r.rowNumber),
+  };
+};
+
+/**
+ * 生成计算过程的可读描述，用于答案中的计算溯源展示
+ */
+export const describeQuery = (query: TableQuery, sourceName: string): string => {
+  const parts = [`《${sourceName}》`];
+  (query.filters || []).forEach(f => {
+    const value = f.op === 'in' ? `[${(f.values || []).join(', ')}]` : f.value ?? '';
+    parts.push(`${f.column} ${OP_LABELS[f.op]} ${value}`);
+  });
+  if (query.groupBy?.length) parts.push(`按 ${query.groupBy.join('、')} 分组`);
+  if (query.aggregates?.length) parts.push(query.aggregates.map(aggregateLabel).join('、'));
+  if (query.orderBy) parts.push(`按 ${query.orderBy.column} ${query.orderBy.direction === 'asc' ? '升序' : '降序'}`);
+  if (query.limit !== undefined) parts.push(`前 ${query.limit} 条`);
+  return parts.join(' · ');
+};
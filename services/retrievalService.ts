@@ -0,0 +1,150 @@
+import { IndexChunk, KnowledgeSource, SourceIndex, SourceType } from "../types.ts";
+import { parseCsvTable, stringifyCsvRow } from "./csvService.ts";
+import { getSourceIndexesFromDB, saveSourceIndexToDB } from "./storageService.ts";
+
+// 每个 CSV 检索块包含的记录行数
+const ROWS_PER_CHUNK = 20;
+// 文本检索块的目标字符数
+const TEXT_CHUNK_CHARS = 1500;
+// BM25 参数
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface RankedChunk {
+  chunk: IndexChunk;
+  score: number;
+}
+
+const CJK_RUN = /[\u3400-\u9FFF\uF900-\uFAFF]+/g;
+const WORD = /[a-z0-9][a-z0-9.+_-]*/g;
+
+/**
+ * 分词：英文/数字按词切分，中文连续片段取单字与相邻双字
+ */
+export const tokenize = (text: string): string[] => {
+  const lower = text.toLowerCase();
+  const tokens: string[] = lower.match(WORD) || [];
+  for (const run of lower.match(CJK_RUN) || []) {
+    for (let i = 0; i < run.length; i++) {
+      tokens.push(run[i]);
+      if (i + 1 < run.length) tokens.push(run.slice(i, i + 2));
+    }
+  }
+  return tokens;
+};
+
+const makeChunk = (sourceId: string, kind: IndexChunk['kind'], start: number, end: number, text: string): IndexChunk => {
+  const tokens = tokenize(text);
+  // 无原型对象：constructor、toString 等词元不会读到 Object.prototype 上的属性
+  const terms: Record<string, number> = Object.create(null);
+  tokens.forEach(t => { terms[t] = (terms[t] || 0) + 1; });
+  return { id: `${sourceId}:${start}`, sourceId, kind, start, end, text, terms, length: tokens.length };
+};
+
+// Excel 工作表与识别出表格的图片入库时已转换为 CSV 文本，与 CSV 走同一套结构化流程
+export const isCsvSource = (source: Pick<KnowledgeSource, 'type' | 'name' | 'schema'>) =>
+  source.type === SourceType.CSV || source.type === SourceType.SPREADSHEET
+  || (source.type === SourceType.IMAGE && !!source.schema) || source.name.toLowerCase().endsWith('.csv');
+
+/**
+ * 构建单个数据源的检索索引：CSV 按记录行分块（块文本与分析提示中的 [Row_N] 行完全一致），
+ * 其他文本按段落聚合分块并记录字符区间
+ */
+export const buildSourceIndex = (source: Pick<KnowledgeSource, 'id' | 'type' | 'name' | 'content' | 'schema'>): SourceIndex => {
+  const chunks: IndexChunk[] = [];
+
+  if (isCsvSource(source)) {
+    const { records } = parseCsvTable(source.content);
+    for (let i = 0; i < records.length; i += ROWS_PER_CHUNK) {
+      const slice = records.slice(i, i + ROWS_PER_CHUNK);
+      const text = slice.map((record, j) => `[Row_${i + j + 1}] ${stringifyCsvRow(record)}`).join('\n');
+      chunks.push(makeChunk(source.id, 'rows', i + 1, i + slice.length, text));
+    }
+  } else {
+    const content = source.content;
+    const paragraph = /\n\s*\n/g;
+    let chunkStart = 0;
+    let cursor = 0;
+    let match: RegExpExecArray | null;
+    const flush = (end: number) => {
+      // 缺少段落分隔的超长片段先按固定长度切分
+      while (end - chunkStart > TEXT_CHUNK_CHARS * 2) flush(chunkStart + TEXT_CHUNK_CHARS);
+      const text = content.slice(chunkStart, end);
+      if (text.trim()) chunks.push(makeChunk(source.id, 'text', chunkStart, end, text));
+      chunkStart = end;
+    };
+    while ((match = paragraph.exec(content)) !== null) {
+      cursor = match.index + match[0].length;
+      if (cursor - chunkStart >= TEXT_CHUNK_CHARS) flush(cursor);
+    }
+    flush(content.length);
+  }
+
+  return { sourceId: source.id, contentLength: source.content.length, builtAt: Date.now(), chunks };
+};
+
+/**
+ * 构建并持久化索引，供入库流程调用
+ */
+export const indexSource = async (source: Pick<KnowledgeSource, 'id' | 'type' | 'name' | 'content' | 'schema'>): Promise<SourceIndex> => {
+  const index = buildSourceIndex(source);
+  await saveSourceIndexToDB(index);
+  return index;
+};
+
+/**
+ * 读取已持久化的索引；缺失或内容已变化的索引即时重建
+ */
+export const loadSourceIndexes = async (sources: KnowledgeSource[]): Promise<SourceIndex[]> => {
+  const stored = new Map((await getSourceIndexesFromDB(sources.map(s => s.id))).map(i => [i.sourceId, i]));
+  return Promise.all(sources.map(s => {
+    const index = stored.get(s.id);
+    return index && index.contentLength === s.content.length ? index : indexSource(s);
+  }));
+};
+
+// 从 IndexedDB 读回的词频表经结构化克隆后重新带有原型，只读取自有属性
+const termFrequency = (chunk: IndexChunk, term: string): number =>
+  Object.prototype.hasOwnProperty.call(chunk.terms, term) ? chunk.terms[term] : 0;
+
+/**
+ * BM25 排序：文档频率在传入的全部块上统计
+ */
+export const rankChunks = (query: string, indexes: SourceIndex[]): RankedChunk[] => {
+  const chunks = indexes.flatMap(i => i.chunks);
+  if (chunks.length === 0) return [];
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const avgLength = chunks.reduce((sum, c) => sum + c.length, 0) / chunks.length || 1;
+
+  const idf = new Map(queryTerms.map(term => {
+    const df = chunks.filter(c => termFrequency(c, term) > 0).length;
+    return [term, Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  return chunks
+    .map(chunk => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = termFrequency(chunk, term);
+        if (!tf) continue;
+        score += idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / avgLength));
+      }
+      return { chunk, score };
+    })
+    .sort((a, b) => b.score - a.score || a.chunk.start - b.chunk.start);
+};
+
+/**
+ * 将已选中块的区间合并为连续区间，用于上下文覆盖报告
+ */
+export const mergeRanges = (chunks: IndexChunk[]): [number, number][] => {
+  const sorted = [...chunks].sort((a, b) => a.start - b.start);
+  const ranges: [number, number][] = [];
+  const gap = sorted[0]?.kind === 'rows' ? 1 : 0;
+  for (const c of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && c.start <= last[1] + gap) last[1] = Math.max(last[1], c.end);
+    else ranges.push([c.start, c.end]);
+  }
+  return ranges;
+};
@@ -0,0 +1,126 @@
+import { KnowledgeSource, ProcessingStatus, SourceType } from "../types.ts";
+
+export type LibrarySort = 'relevance' | 'dateDesc' | 'dateAsc' | 'name' | 'size';
+export type SnippetField = 'name' | 'summary' | 'content';
+
+export interface LibraryFilters {
+  query: string;
+  types: SourceType[]; // Empty means all types
+  statuses: ProcessingStatus[]; // Empty means all statuses
+  dateFrom?: string; // yyyy-mm-dd, inclusive
+  dateTo?: string;
+}
+
+export interface SearchSnippet {
+  field: SnippetField;
+  text: string;
+  highlights: [number, number][]; // [start, end) offsets within text
+}
+
+export interface SearchHit {
+  source: KnowledgeSource;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+export const EMPTY_FILTERS: LibraryFilters = { query: '', types: [], statuses: [] };
+
+// 正文片段在命中位置前后保留的字符数
+const SNIPPET_CONTEXT = 40;
+// 单个数据源最多展示的正文片段数
+const MAX_CONTENT_SNIPPETS = 2;
+// 字段权重：名称命中最重要，正文命中按次数累加（有上限）
+const FIELD_WEIGHTS: Record<SnippetField, number> = { name: 10, summary: 4, content: 1 };
+const MAX_CONTENT_HITS = 20;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const parseSearchTerms = (query: string) =>
+  Array.from(new Set(query.trim().split(/\s+/).filter(Boolean)));
+
+const termPattern = (terms: string[]) => new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+
+const findMatches = (text: string, pattern: RegExp, limit: number): [number, number][] => {
+  const matches: [number, number][] = [];
+  pattern.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while (matches.length < limit && (m = pattern.exec(text))) matches.push([m.index, m.index + m[0].length]);
+  return matches;
+};
+
+/**
+ * 截取命中位置附近的片段，偏移量换算到片段内；换行压缩为空格
+ */
+const buildSnippet = (text: string, match: [number, number], pattern: RegExp): SearchSnippet => {
+  const start = Math.max(0, match[0] - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, match[1] + SNIPPET_CONTEXT);
+  const prefix = start > 0 ? '…' : '';
+  const body = text.slice(start, end).replace(/\s/g, ' ');
+  return {
+    field: 'content',
+    text: `${prefix}${body}${end < text.length ? '…' : ''}`,
+    highlights: findMatches(body, pattern, 50).map(([s, e]) => [s + prefix.length, e + prefix.length]),
+  };
+};
+
+const matchSource = (source: KnowledgeSource, terms: string[]): SearchHit | null => {
+  const fields: Record<SnippetField, string> = { name: source.name, summary: source.summary || '', content: source.content };
+  // 每个关键词至少在一个字段中出现（AND 语义）
+  const allTermsFound = terms.every(term => {
+    const pattern = new RegExp(escapeRegExp(term), 'i');
+    return pattern.test(fields.name) || pattern.test(fields.summary) || pattern.test(fields.content);
+  });
+  if (!allTermsFound) return null;
+
+  const pattern = termPattern(terms);
+  let score = 0;
+  const snippets: SearchSnippet[] = [];
+  for (const field of ['name', 'summary'] as const) {
+    const matches = findMatches(fields[field], pattern, 50);
+    score += matches.length * FIELD_WEIGHTS[field];
+    if (matches.length) snippets.push({ field, text: fields[field], highlights: matches });
+  }
+  const contentMatches = findMatches(fields.content, pattern, MAX_CONTENT_HITS);
+  score += contentMatches.length * FIELD_WEIGHTS.content;
+  let lastEnd = -1;
+  for (const match of contentMatches) {
+    if (snippets.filter(s => s.field === 'content').length >= MAX_CONTENT_SNIPPETS) break;
+    if (match[0] < lastEnd) continue;
+    snippets.push(buildSnippet(fields.content, match, pattern));
+    lastEnd = match[1] + SNIPPET_CONTEXT;
+  }
+  return { source, score, snippets };
+};
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const SORTERS: Record<LibrarySort, (a: SearchHit, b: SearchHit) => number> = {
+  relevance: (a, b) => b.score - a.score || b.source.dateAdded - a.source.dateAdded,
+  dateDesc: (a, b) => b.source.dateAdded - a.source.dateAdded,
+  dateAsc: (a, b) => a.source.dateAdded - b.source.dateAdded,
+  name: (a, b) => a.source.name.localeCompare(b.source.name, 'zh-CN'),
+  size: (a, b) => b.source.content.length - a.source.content.length,
+};
+
+/**
+ * 知识库检索：按类型、状态与入库日期过滤，再对名称、摘要与正文做全文匹配
+ * “相关度”排序在无关键词时保持知识库原有顺序
+ */
+export const searchSources = (sources: KnowledgeSource[], filters: LibraryFilters, sort: LibrarySort): SearchHit[] => {
+  const from = filters.dateFrom ? dayStart(filters.dateFrom) : -Infinity;
+  const to = filters.dateTo ? dayStart(filters.dateTo) + 86400000 : Infinity;
+  const candidates = sources.filter(s =>
+    (filters.types.length === 0 || filters.types.includes(s.type))
+    && (filters.statuses.length === 0 || filters.statuses.includes(s.status))
+    && s.dateAdded >= from && s.dateAdded < to
+  );
+
+  const terms = parseSearchTerms(filters.query);
+  const hits = terms.length === 0
+    ? candidates.map(source => ({ source, score: 0, snippets: [] }))
+    : candidates.map(s => matchSource(s, terms)).filter((h): h is SearchHit => h !== null);
+  return terms.length === 0 && sort === 'relevance' ? hits : hits.sort(SORTERS[sort]);
+};
+
+export const isFiltering = (filters: LibraryFilters) =>
+  !!filters.query.trim() || filters.types.length > 0 || filters.statuses.length > 0 || !!filters.dateFrom || !!filters.dateTo;
@@ -0,0 +1,64 @@
+import { AppSettings, LlmTask, ThinkingPreset } from "../types.ts";
+import { getSettingFromDB, saveSettingToDB } from "./storageService.ts";
+
+const SETTINGS_KEY = 'app_settings';
+
+// 思考预算预设：analysis 用于主分析与合并，batch 用于全量扫描的每个批次
+export const THINKING_PRESETS: Record<ThinkingPreset, { label: string, description: string, analysis: number, batch: number }> = {
+  fast: { label: '快速', description: '较少推理，适合简单查找', analysis: 4096, batch: 1024 },
+  deep: { label: '深度', description: '充分推理，适合复杂对比与统计', analysis: 32768, batch: 8192 },
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  tasks: {
+    analysis: { providerId: 'gemini', model: 'gemini-3-pro-preview' },
+    batch: { providerId: 'gemini', model: 'gemini-3-flash-preview' },
+    summary: { providerId: 'gemini', model: 'gemini-3-flash-preview' },
+    vision: { providerId: 'gemini', model: 'gemini-3-flash-preview' },
+    image: { providerId: 'gemini', model: 'gemini-3-pro-image-preview' },
+  },
+  openaiBaseUrl: 'http://localhost:11434/v1',
+  openaiApiKey: '',
+  geminiApiKey: '',
+  thinkingPreset: 'deep',
+  temperature: 0,
+  historyWindow: 6,
+  contextBudget: 1400000, // 针对 Gemini 3 Pro 2.0M Token 的超大规模上下文配置
+  ingestConcurrency: 2, // 并发过高容易触发模型接口限流
+};
+
+export const LLM_TASK_LABELS: Record<LlmTask, string> = {
+  analysis: '深度分析',
+  batch: '全量扫描分批',
+  summary: '入库摘要',
+  vision: '图片识别',
+  image: '分身图像',
+};
+
+let cached: AppSettings | null = null;
+
+/**
+ * 启动时从 IndexedDB 载入设置；缺失的项以默认值补全，兼容旧版本保存的设置
+ */
+export const loadSettings = async (): Promise<AppSettings> => {
+  const saved = await getSettingFromDB<Partial<AppSettings>>(SETTINGS_KEY);
+  cached = saved
+    ? { ...DEFAULT_SETTINGS, ...saved, tasks: { ...DEFAULT_SETTINGS.tasks, ...saved.tasks } }
+    : DEFAULT_SETTINGS;
+  return cached;
+};
+
+/**
+ * 同步读取已载入的设置，供各服务在调用模型时使用
+ */
+export const getSettings = (): AppSettings => cached || DEFAULT_SETTINGS;
+
+export const saveSettings = (settings: AppSettings) => {
+  cached = settings;
+  saveSettingToDB(SETTINGS_KEY, settings);
+};
+
+/**
+ * 运行时填写的密钥优先，未填写时回退到构建时注入的 GEMINI_API_KEY
+ */
+export const getGeminiApiKey = (): string | undefined => getSettings().geminiApiKey.trim() || process.env.API_KEY;
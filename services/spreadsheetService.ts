@@ -0,0 +1,103 @@
+import { read, utils, WorkSheet } from "xlsx";
+import { stringifyCsvRow } from "./csvService.ts";
+
+export interface SheetTable {
+  name: string;
+  csv: string; // Flattened header + data rows, ready for the CSV pipeline
+  rowCount: number;
+  headerDepth: number; // Number of sheet rows merged into the header
+}
+
+// 多级表头的最大层数
+const MAX_HEADER_DEPTH = 4;
+
+export const isSpreadsheetFile = (fileName: string) => /\.(xlsx|xls)$/i.test(fileName);
+
+/**
+ * 读取工作表为字符串网格；合并单元格的值填充到合并区域内的每个格子
+ */
+const sheetToGrid = (sheet: WorkSheet): string[][] => {
+  if (!sheet['!ref']) return [];
+  const range = utils.decode_range(sheet['!ref']);
+  const grid: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = sheet[utils.encode_cell({ r, c })];
+      row.push(cell ? String(cell.w ?? cell.v ?? '').trim() : '');
+    }
+    grid.push(row);
+  }
+  for (const m of sheet['!merges'] || []) {
+    const value = grid[m.s.r - range.s.r]?.[m.s.c - range.s.c] ?? '';
+    for (let r = m.s.r; r <= m.e.r; r++) {
+      for (let c = m.s.c; c <= m.e.c; c++) grid[r - range.s.r][c - range.s.c] = value;
+    }
+  }
+  return grid;
+};
+
+/**
+ * 推断表头层数：首个表头行起，凡横向合并的格子下方还有一行子表头，纵向合并的格子覆盖的行也属于表头
+ */
+const detectHeaderDepth = (sheet: WorkSheet, top: number): number => {
+  const merges = sheet['!merges'] || [];
+  let depth = 1;
+  let changed = true;
+  while (changed && depth < MAX_HEADER_DEPTH) {
+    changed = false;
+    for (const m of merges) {
+      if (m.s.r < top || m.s.r >= top + depth) continue;
+      const needed = m.e.c > m.s.c && m.e.r === top + depth - 1 ? m.e.r - top + 2 : m.e.r - top + 1;
+      if (needed > depth) {
+        depth = Math.min(needed, MAX_HEADER_DEPTH);
+        changed = true;
+      }
+    }
+  }
+  return depth;
+};
+
+/**
+ * 解析单个工作表：跳过开头的空行与整行合并的标题行，多级表头按“上级/下级”拍平
+ */
+const parseSheet = (name: string, sheet: WorkSheet): SheetTable | null => {
+  const origin = sheet['!ref'] ? utils.decode_range(sheet['!ref']).s : { r: 0, c: 0 };
+  const grid = sheetToGrid(sheet);
+  const width = grid.reduce((max, row) => Math.max(max, row.reduce((last, cell, i) => cell ? i + 1 : last, 0)), 0);
+  if (width === 0) return null;
+
+  const isBlank = (row: string[]) => row.slice(0, width).every(cell => !cell);
+  const isTitle = (row: string[]) => width > 1 && new Set(row.slice(0, width)).size === 1;
+  let top = 0;
+  while (top < grid.length && (isBlank(grid[top]) || isTitle(grid[top]))) top++;
+  if (top >= grid.length) return null;
+
+  const depth = Math.min(detectHeaderDepth(sheet, top + origin.r), grid.length - top);
+  const header = Array.from({ length: width }, (_, c) => {
+    const parts: string[] = [];
+    for (let r = top; r < top + depth; r++) {
+      const value = grid[r][c];
+      if (value && parts[parts.length - 1] !== value) parts.push(value);
+    }
+    return parts.join('/');
+  });
+
+  const records = grid.slice(top + depth).map(row => row.slice(0, width)).filter(row => !isBlank(row));
+  return {
+    name,
+    csv: [header, ...records].map(row => stringifyCsvRow(row)).join('\n'),
+    rowCount: records.length,
+    headerDepth: depth,
+  };
+};
+
+/**
+ * 在本地解析 Excel 工作簿（.xlsx / .xls），每个非空工作表输出一张拍平后的 CSV 表
+ */
+export const parseWorkbook = (data: Uint8Array): SheetTable[] => {
+  const workbook = read(data, { type: 'array', cellDates: true });
+  return workbook.SheetNames
+    .map(name => parseSheet(name, workbook.Sheets[name]))
+    .filter((t): t is SheetTable => t !== null);
+};
@@ -1,55 +1,316 @@
-import { KnowledgeSource } from "../types.ts";
+import { Conversation, KnowledgeSource, Partition, SourceIndex } from "../types.ts";
 
 const DB_NAME = "MagicLensDB";
-const STORE_NAME = "sources_store";
-const DB_VERSION = 1;
+// v1 的整体数组存储，v4 起拆分为元数据与正文两个存储
+const LEGACY_STORE_NAME = "sources_store";
+const LEGACY_SOURCES_KEY = "current_sources";
+const SOURCE_STORE_NAME = "sources";
+const CONTENT_STORE_NAME = "source_contents";
+const INDEX_STORE_NAME = "index_store";
+const CONVERSATION_STORE_NAME = "conversations_store";
+const PARTITION_STORE_NAME = "partitions";
+const SETTINGS_STORE_NAME = "settings";
+const FILE_STORE_NAME = "source_files";
+const DB_VERSION = 5;
+
+// v4 之前保存在 localStorage 中的数据，迁移到 settings 存储时沿用原键名
+const LEGACY_LOCAL_KEYS = ['app_settings', 'llm_settings', 'kb_partitions', 'avatar_name', 'user_avatar', 'active_conversation'];
+
+// 上传的原始文件，导入失败重试与重新处理时读取
+export interface SourceFileRecord {
+  sourceId: string;
+  dataUrl: string;
+  fileName: string;
+  mimeType: string;
+}
+
+interface SourceContentRecord {
+  sourceId: string;
+  content: string;
+  rawData?: string;
+}
+
+const splitSource = ({ content, rawData, ...meta }: KnowledgeSource): [Omit<KnowledgeSource, 'content' | 'rawData'>, SourceContentRecord] =>
+  [meta, { sourceId: meta.id, content, ...(rawData !== undefined ? { rawData } : {}) }];
+
+const readLocalJson = (key: string) => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * v4 迁移：整体数组拆分为逐条记录；分区、设置、分身资料与当前会话从 localStorage 搬入 IndexedDB
+ * 旧键在升级事务成功提交后才删除，迁移失败时原数据保持不变
+ */
+const migrateToV4 = (db: IDBDatabase, tx: IDBTransaction) => {
+  if (db.objectStoreNames.contains(LEGACY_STORE_NAME)) {
+    const request = tx.objectStore(LEGACY_STORE_NAME).get(LEGACY_SOURCES_KEY);
+    request.onsuccess = () => {
+      (request.result as KnowledgeSource[] | undefined || []).forEach(source => {
+        const [meta, content] = splitSource(source);
+        tx.objectStore(SOURCE_STORE_NAME).put(meta);
+        tx.objectStore(CONTENT_STORE_NAME).put(content);
+      });
+      db.deleteObjectStore(LEGACY_STORE_NAME);
+    };
+  }
+
+  const partitions = readLocalJson('kb_partitions');
+  if (Array.isArray(partitions)) {
+    partitions.forEach((p: Partition, order: number) => tx.objectStore(PARTITION_STORE_NAME).put({ ...p, order }));
+  }
+  const settings = tx.objectStore(SETTINGS_STORE_NAME);
+  const appSettings = readLocalJson('app_settings') || readLocalJson('llm_settings');
+  if (appSettings) settings.put(appSettings, 'app_settings');
+  for (const key of ['avatar_name', 'user_avatar', 'active_conversation']) {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings.put(value, key);
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let blockedListener: (() => void) | null = null;
+
+/**
+ * 其他标签页仍持有旧版本连接、升级被阻塞时回调；连接关闭后升级自动继续
+ */
+export const onDatabaseBlocked = (listener: () => void) => {
+  blockedListener = listener;
+};
 
 const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migrated = false;
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+      const tx = request.transaction!;
+      // v2: 检索索引按 sourceId 单独存储
+      if (!db.objectStoreNames.contains(INDEX_STORE_NAME)) {
+        db.createObjectStore(INDEX_STORE_NAME, { keyPath: "sourceId" });
       }
+      // v3: 分析会话按 id 单独存储
+      if (!db.objectStoreNames.contains(CONVERSATION_STORE_NAME)) {
+        db.createObjectStore(CONVERSATION_STORE_NAME, { keyPath: "id" });
+      }
+      // v4: 数据源元数据与正文分开存储，分区与设置移入 IndexedDB
+      if (event.oldVersion < 4) {
+        const sources = db.createObjectStore(SOURCE_STORE_NAME, { keyPath: "id" });
+        sources.createIndex("partitionId", "partitionId");
+        sources.createIndex("dateAdded", "dateAdded");
+        db.createObjectStore(CONTENT_STORE_NAME, { keyPath: "sourceId" });
+        db.createObjectStore(PARTITION_STORE_NAME, { keyPath: "id" });
+        db.createObjectStore(SETTINGS_STORE_NAME);
+        migrateToV4(db, tx);
+        migrated = true;
+      }
+      // v5: 保留上传的原始文件，供导入队列重试与重新处理
+      if (event.oldVersion < 5) {
+        db.createObjectStore(FILE_STORE_NAME, { keyPath: "sourceId" });
+      }
+    };
+
+    request.onblocked = () => blockedListener?.();
+    request.onsuccess = () => {
+      if (migrated) LEGACY_LOCAL_KEYS.forEach(key => localStorage.removeItem(key));
+      const db = request.result;
+      // 其他标签页升级数据库时主动让出连接，避免对方一直被阻塞
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
     };
+  });
+  return dbPromise;
+};
 
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
+/**
+ * 在单个事务中执行写操作，事务提交后 resolve
+ */
+const write = async (storeNames: string[], run: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(storeNames, "readwrite");
+  run(tx);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
   });
 };
 
-export const saveSourcesToDB = async (sources: KnowledgeSource[]): Promise<void> => {
+const read = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * 保存单个数据源；withContent 为 false 时只写元数据（状态、摘要等），避免反复写入多 MB 的正文
+ */
+export const saveSourceToDB = async (source: KnowledgeSource, withContent = true): Promise<void> => {
   try {
-    const db = await openDB();
-    const tx = db.transaction(STORE_NAME, "readwrite");
-    const store = tx.objectStore(STORE_NAME);
-    // We store the whole array under a single key "current_sources" 
-    // to keep the logic similar to localStorage but with higher capacity.
-    store.put(sources, "current_sources");
-    return new Promise((resolve, reject) => {
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
+    const [meta, content] = splitSource(source);
+    await write([SOURCE_STORE_NAME, CONTENT_STORE_NAME], tx => {
+      tx.objectStore(SOURCE_STORE_NAME).put(meta);
+      if (withContent) tx.objectStore(CONTENT_STORE_NAME).put(content);
     });
   } catch (error) {
-    console.error("Failed to save to IndexedDB:", error);
+    console.error("Failed to save source to IndexedDB:", error);
   }
 };
 
+/**
+ * 删除数据源的元数据、正文、检索索引与原始文件
+ */
+export const deleteSourceFromDB = async (sourceId: string): Promise<void> => {
+  try {
+    await write([SOURCE_STORE_NAME, CONTENT_STORE_NAME, INDEX_STORE_NAME, FILE_STORE_NAME], tx => {
+      tx.objectStore(SOURCE_STORE_NAME).delete(sourceId);
+      tx.objectStore(CONTENT_STORE_NAME).delete(sourceId);
+      tx.objectStore(INDEX_STORE_NAME).delete(sourceId);
+      tx.objectStore(FILE_STORE_NAME).delete(sourceId);
+    });
+  } catch (error) {
+    console.error("Failed to delete source from IndexedDB:", error);
+  }
+};
+
+/**
+ * 读取全部数据源并拼回正文；按编号排序，编号相同时按入库时间
+ */
 export const getSourcesFromDB = async (): Promise<KnowledgeSource[]> => {
   try {
     const db = await openDB();
-    const tx = db.transaction(STORE_NAME, "readonly");
-    const store = tx.objectStore(STORE_NAME);
-    const request = store.get("current_sources");
+    const tx = db.transaction([SOURCE_STORE_NAME, CONTENT_STORE_NAME], "readonly");
+    const [metas, contents] = await Promise.all([
+      read(tx.objectStore(SOURCE_STORE_NAME).index("dateAdded").getAll() as IDBRequest<KnowledgeSource[]>),
+      read(tx.objectStore(CONTENT_STORE_NAME).getAll() as IDBRequest<SourceContentRecord[]>),
+    ]);
+    const byId = new Map(contents.map(c => [c.sourceId, c]));
+    return metas
+      .map(meta => {
+        const record = byId.get(meta.id);
+        return { ...meta, content: record?.content ?? '', ...(record?.rawData !== undefined ? { rawData: record.rawData } : {}) };
+      })
+      .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+  } catch (error) {
+    console.error("Failed to read from IndexedDB:", error);
+    return [];
+  }
+};
+
+export const saveSourceFileToDB = async (file: SourceFileRecord): Promise<void> => {
+  try {
+    await write([FILE_STORE_NAME], tx => { tx.objectStore(FILE_STORE_NAME).put(file); });
+  } catch (error) {
+    console.error("Failed to save source file to IndexedDB:", error);
+  }
+};
+
+export const getSourceFileFromDB = async (sourceId: string): Promise<SourceFileRecord | undefined> => {
+  try {
+    const db = await openDB();
+    return await read(db.transaction(FILE_STORE_NAME, "readonly").objectStore(FILE_STORE_NAME).get(sourceId));
+  } catch (error) {
+    console.error("Failed to read source file from IndexedDB:", error);
+    return undefined;
+  }
+};
 
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => resolve(request.result || []);
-      request.onerror = () => reject(request.error);
+export const savePartitionsToDB = async (partitions: Partition[]): Promise<void> => {
+  try {
+    await write([PARTITION_STORE_NAME], tx => {
+      const store = tx.objectStore(PARTITION_STORE_NAME);
+      store.clear();
+      partitions.forEach((p, order) => store.put({ ...p, order }));
     });
   } catch (error) {
-    console.error("Failed to read from IndexedDB:", error);
+    console.error("Failed to save partitions to IndexedDB:", error);
+  }
+};
+
+export const getPartitionsFromDB = async (): Promise<Partition[]> => {
+  try {
+    const db = await openDB();
+    const records = await read(db.transaction(PARTITION_STORE_NAME, "readonly").objectStore(PARTITION_STORE_NAME).getAll());
+    return (records as (Partition & { order: number })[])
+      .sort((a, b) => a.order - b.order)
+      .map(({ order, ...p }) => p);
+  } catch (error) {
+    console.error("Failed to read partitions from IndexedDB:", error);
+    return [];
+  }
+};
+
+export const saveSettingToDB = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await write([SETTINGS_STORE_NAME], tx => { tx.objectStore(SETTINGS_STORE_NAME).put(value, key); });
+  } catch (error) {
+    console.error("Failed to save setting to IndexedDB:", error);
+  }
+};
+
+export const getSettingFromDB = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    const db = await openDB();
+    return await read(db.transaction(SETTINGS_STORE_NAME, "readonly").objectStore(SETTINGS_STORE_NAME).get(key));
+  } catch (error) {
+    console.error("Failed to read setting from IndexedDB:", error);
+    return undefined;
+  }
+};
+
+export const saveSourceIndexToDB = async (index: SourceIndex): Promise<void> => {
+  try {
+    await write([INDEX_STORE_NAME], tx => { tx.objectStore(INDEX_STORE_NAME).put(index); });
+  } catch (error) {
+    console.error("Failed to save index to IndexedDB:", error);
+  }
+};
+
+export const getSourceIndexesFromDB = async (sourceIds: string[]): Promise<SourceIndex[]> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(INDEX_STORE_NAME, "readonly").objectStore(INDEX_STORE_NAME);
+    const results = await Promise.all(sourceIds.map(id => read<SourceIndex | undefined>(store.get(id))));
+    return results.filter((index): index is SourceIndex => !!index);
+  } catch (error) {
+    console.error("Failed to read indexes from IndexedDB:", error);
     return [];
   }
 };
+
+export const saveConversationToDB = async (conversation: Conversation): Promise<void> => {
+  try {
+    await write([CONVERSATION_STORE_NAME], tx => { tx.objectStore(CONVERSATION_STORE_NAME).put(conversation); });
+  } catch (error) {
+    console.error("Failed to save conversation to IndexedDB:", error);
+  }
+};
+
+export const getConversationsFromDB = async (): Promise<Conversation[]> => {
+  try {
+    const db = await openDB();
+    return (await read(db.transaction(CONVERSATION_STORE_NAME, "readonly").objectStore(CONVERSATION_STORE_NAME).getAll())) || [];
+  } catch (error) {
+    console.error("Failed to read conversations from IndexedDB:", error);
+    return [];
+  }
+};
+
+export const deleteConversationFromDB = async (conversationId: string): Promise<void> => {
+  try {
+    await write([CONVERSATION_STORE_NAME], tx => { tx.objectStore(CONVERSATION_STORE_NAME).delete(conversationId); });
+  } catch (error) {
+    console.error("Failed to delete conversation from IndexedDB:", error);
+  }
+};
@@ -0,0 +1,173 @@
+import { Citation, ClaimCheck, ComputationRecord, KnowledgeSource, VerificationReport } from "../types.ts";
+import { ParsedTable, parseCsvTable, parseNumeric } from "./csvService.ts";
+import { extractCitations, stripCitations } from "./citationService.ts";
+import { isCsvSource } from "./retrievalService.ts";
+
+interface ClaimValue {
+  value: number;
+  tolerance: number; // Half a unit of the last digit shown in the answer
+}
+
+interface Evidence {
+  citations: Citation[];
+  calcIds: string[];
+}
+
+// 单元格中的数值片段：可带货币符号、千分位、小数与 % / 万 / 亿
+const NUMBER_TOKEN = /[-+]?[¥￥$€£]?\d[\d,，]*(?:\.\d+)?\s*(?:%|万|亿)?/g;
+// 分号分隔表格中的数值片段：点为千分位、逗号为小数点
+const DECIMAL_COMMA_TOKEN = /[-+]?[¥￥$€£]?\d[\d.]*(?:,\d+)?\s*(?:%|万|亿)?/g;
+// 数值后允许出现的计量单位，其余文字说明该单元格不是数值（如“小鹏G7”）
+const UNIT_REMAINDER = /^[\s()（）]*(?:辆|台|元|万元|亿元|个|次|件|款|家|人|户|pp|百分点)?[\s()（）]*$/;
+// 行号、序号等定位列不作为数值结论核验
+const LOCATOR_COLUMN = /^(row|row_?id|行号|序号|排名|名次|source|source_id|来源)$/i;
+const SEPARATOR_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const CALC_REF = /\[?(Calc_\d+)\]?/g;
+const ROW_REF = /Row_(\d+)/g;
+
+const splitRow = (line: string) => line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(c => c.trim());
+
+const cleanCell = (cell: string) => stripCitations(cell).replace(CALC_REF, '').replace(/\*\*|__|`/g, '').trim();
+
+/**
+ * 解析单元格中的数值结论；同时给出带单位换算与不换算两种读法，以兼容“19.98万”对应原表 19.98 的情况
+ */
+const parseClaim = (cell: string): ClaimValue[] | null => {
+  const tokens = cell.match(NUMBER_TOKEN);
+  if (!tokens || tokens.length !== 1 || !UNIT_REMAINDER.test(cell.replace(tokens[0], ''))) return null;
+  const token = tokens[0].replace(/\s/g, '');
+  const scaled = parseNumeric(token);
+  const bareText = token.replace(/[%万亿]$/, '');
+  const bare = parseNumeric(bareText);
+  if (scaled === null || bare === null) return null;
+  const decimals = bareText.split('.')[1]?.length ?? 0;
+  const unitTolerance = 0.5 * Math.pow(10, -decimals);
+  const values = [{ value: bare, tolerance: unitTolerance }];
+  if (scaled !== bare) values.push({ value: scaled, tolerance: unitTolerance * Math.abs(scaled / (bare || 1)) });
+  return values;
+};
+
+const matches = (claim: ClaimValue[], candidates: number[]) =>
+  claim.some(c => candidates.some(x => Math.abs(x - c.value) <= c.tolerance + Math.abs(x) * 1e-9));
+
+const numbersIn = (text: string, delimiter: string = ','): number[] => (text.match(delimiter === ';' ? DECIMAL_COMMA_TOKEN : NUMBER_TOKEN) || []).flatMap(token => {
+  const t = token.replace(/\s/g, '');
+  return [parseNumeric(t, delimiter), parseNumeric(t.replace(/[%万亿]$/, ''), delimiter)].filter((n): n is number => n !== null);
+});
+
+/**
+ * 汇总引用证据中的全部候选数值：被引用行的各单元格、多行引用的逐列合计、计算结果及引文片段中的数字
+ */
+const collectCandidates = (
+  evidence: Evidence,
+  sources: Map<string, KnowledgeSource>,
+  tables: Map<string, ParsedTable>,
+  computations: ComputationRecord[]
+): { candidates: number[], missing: string[] } => {
+  const candidates: number[] = [];
+  const missing: string[] = [];
+
+  for (const citation of evidence.citations) {
+    const source = sources.get(citation.sourceId);
+    if (!source) { missing.push(citation.sourceId); continue; }
+    if (citation.kind === 'span') {
+      candidates.push(...numbersIn(source.content.slice(citation.start, citation.end)));
+      continue;
+    }
+    if (!isCsvSource(source)) { missing.push(source.name); continue; }
+    if (!tables.has(source.id)) tables.set(source.id, parseCsvTable(source.content));
+    const { records, schema } = tables.get(source.id)!;
+    const rows = records.slice(citation.start - 1, citation.end);
+    if (rows.length === 0) { missing.push(`${source.name} R${citation.start}`); continue; }
+    const columnSums = new Map<number, number>();
+    rows.forEach(row => row.forEach((cell, i) => {
+      const n = parseNumeric(cell, schema.delimiter);
+      if (n === null) return;
+      candidates.push(...numbersIn(cell, schema.delimiter));
+      columnSums.set(i, (columnSums.get(i) || 0) + n);
+    }));
+    if (rows.length > 1) candidates.push(...columnSums.values(), rows.length);
+  }
+
+  for (const id of evidence.calcIds) {
+    const record = computations.find(c => c.id === id);
+    if (!record?.result) { missing.push(id); continue; }
+    candidates.push(record.result.matchedRowCount);
+    record.result.rows.forEach(row => row.forEach(cell => { if (typeof cell === 'number') candidates.push(cell); }));
+  }
+
+  return { candidates, missing };
+};
+
+/**
+ * 从单元格文本中收集引用证据；表格中以 Source_ID 列 + [Row_N] 列给出的定位同样视为行引用
+ */
+const collectEvidence = (cells: string[], sources: KnowledgeSource[], rowSourceId?: string): Evidence => {
+  const joined = cells.join(' ');
+  const citations = extractCitations(joined, sources);
+  if (rowSourceId) {
+    for (const m of stripCitations(joined).matchAll(ROW_REF)) {
+      const row = parseInt(m[1], 10);
+      citations.push({ sourceId: rowSourceId, kind: 'rows', start: row, end: row });
+    }
+  }
+  const calcIds = Array.from(stripCitations(joined).matchAll(CALC_REF), m => m[1]);
+  return { citations, calcIds };
+};
+
+/**
+ * 核验答案中 Markdown 表格内的数值结论：与被引用的原始行、计算结果或原文片段逐一比对
+ */
+export const verifyAnswer = (text: string, sources: KnowledgeSource[], computations: ComputationRecord[] = []): VerificationReport => {
+  const lines = text.split('\n');
+  const sourceMap = new Map(sources.map(s => [s.id, s]));
+  const csvSources = sources.filter(isCsvSource);
+  const tables = new Map<string, ParsedTable>();
+  const checks: ClaimCheck[] = [];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*```/.test(lines[i])) inFence = !inFence;
+    if (inFence || !lines[i].includes('|') || !SEPARATOR_ROW.test(lines[i + 1] || '')) continue;
+
+    const header = splitRow(lines[i]).map(h => cleanCell(h));
+    let j = i + 2;
+    for (; j < lines.length && lines[j].includes('|') && lines[j].trim(); j++) {
+      const cells = splitRow(lines[j]);
+      const rowSourceId = cells.map(c => cleanCell(c)).find(c => sourceMap.has(c))
+        ?? (csvSources.length === 1 ? csvSources[0].id : undefined);
+      const rowEvidence = collectEvidence(cells, sources, rowSourceId);
+
+      cells.forEach((cell, cellIndex) => {
+        const column = header[cellIndex] ?? '';
+        if (LOCATOR_COLUMN.test(column) || /Row_\d+/.test(cell) || sourceMap.has(cleanCell(cell))) return;
+        const claim = parseClaim(cleanCell(cell));
+        if (!claim) return;
+
+        const own = collectEvidence([cell], sources);
+        const evidence = own.citations.length + own.calcIds.length > 0 ? own : rowEvidence;
+        const check: ClaimCheck = { line: j + 1, cell: cellIndex, column, value: cleanCell(cell), status: 'unsourced' };
+        if (evidence.citations.length + evidence.calcIds.length > 0) {
+          const { candidates, missing } = collectCandidates(evidence, sourceMap, tables, computations);
+          if (matches(claim, candidates)) {
+            check.status = 'verified';
+          } else if (candidates.length === 0 && missing.length > 0) {
+            check.note = `引用无法解析：${missing.join('、')}`;
+          } else {
+            check.status = 'mismatched';
+            check.note = '被引用的数据中找不到该数值';
+          }
+        }
+        checks.push(check);
+      });
+    }
+    i = j - 1;
+  }
+
+  return {
+    checks,
+    verified: checks.filter(c => c.status === 'verified').length,
+    mismatched: checks.filter(c => c.status === 'mismatched').length,
+    unsourced: checks.filter(c => c.status === 'unsourced').length,
+  };
+};
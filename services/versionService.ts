@@ -0,0 +1,141 @@
+import { KnowledgeSource, ProcessingStatus } from "../types.ts";
+import { parseCsvTable } from "./csvService.ts";
+
+export interface DiffRow {
+  key: string;
+  row: number; // [Row_N] in the version the row belongs to
+  values: Record<string, string>;
+}
+
+export interface ChangedRow {
+  key: string;
+  beforeRow: number;
+  afterRow: number;
+  before: Record<string, string>;
+  after: Record<string, string>;
+  changedColumns: string[];
+}
+
+export interface VersionDiff {
+  keyColumn: string;
+  columns: string[]; // Columns present in both versions, compared cell by cell
+  addedColumns: string[];
+  removedColumns: string[];
+  added: DiffRow[];
+  removed: DiffRow[];
+  changed: ChangedRow[];
+  unchangedCount: number;
+  duplicateKeys: string[]; // Keys occurring more than once; only the first occurrence is compared
+}
+
+export const getVersionGroupId = (source: Pick<KnowledgeSource, 'id' | 'versionGroupId'>) => source.versionGroupId || source.id;
+
+const versionOf = (source: KnowledgeSource) => source.version || 1;
+
+/**
+ * 同一文档的全部版本，最新版本在前
+ */
+export const getVersionHistory = (sources: KnowledgeSource[], groupId: string) =>
+  sources.filter(s => getVersionGroupId(s) === groupId).sort((a, b) => versionOf(b) - versionOf(a));
+
+/**
+ * 按版本组选出要使用的版本：会话固定的版本优先，否则取处理完成的最新版本；
+ * 新版本仍在导入或导入失败时继续使用上一个可用版本，整组都未完成时才取最新版本；保持原有顺序
+ */
+export const resolveVersions = (sources: KnowledgeSource[], pinned: Record<string, string> = {}): KnowledgeSource[] => {
+  const rank = (s: KnowledgeSource) => [s.id === pinned[getVersionGroupId(s)] ? 1 : 0, s.status === ProcessingStatus.COMPLETED ? 1 : 0, versionOf(s)];
+  const outranks = (a: KnowledgeSource, b: KnowledgeSource) => {
+    const x = rank(a), y = rank(b);
+    const i = x.findIndex((v, k) => v !== y[k]);
+    return i !== -1 && x[i] > y[i];
+  };
+  const chosen = new Map<string, KnowledgeSource>();
+  sources.forEach(s => {
+    const groupId = getVersionGroupId(s);
+    const current = chosen.get(groupId);
+    if (!current || outranks(s, current)) chosen.set(groupId, s);
+  });
+  const ids = new Set(Array.from(chosen.values()).map(s => s.id));
+  return sources.filter(s => ids.has(s.id));
+};
+
+export const latestVersions = (sources: KnowledgeSource[]) => resolveVersions(sources);
+
+/**
+ * 新版本沿用所在版本组的编号与分区，版本号在组内递增
+ */
+export const nextVersionFields = (sources: KnowledgeSource[], base: KnowledgeSource): Pick<KnowledgeSource, 'versionGroupId' | 'version' | 'partitionId' | 'sequenceNumber'> => {
+  const groupId = getVersionGroupId(base);
+  const history = getVersionHistory(sources, groupId);
+  return {
+    versionGroupId: groupId,
+    version: versionOf(history[0] || base) + 1,
+    partitionId: base.partitionId,
+    sequenceNumber: base.sequenceNumber,
+  };
+};
+
+/**
+ * 推荐主键列：两个版本中取值都非空且不重复的第一列，没有时取两版共有的第一列
+ */
+export const suggestKeyColumn = (before: KnowledgeSource, after: KnowledgeSource): string | undefined => {
+  const a = parseCsvTable(before.content);
+  const b = parseCsvTable(after.content);
+  const common = a.header.filter(col => b.header.includes(col));
+  const isUnique = (records: string[][], index: number) => {
+    const values = records.map(r => (r[index] ?? '').trim());
+    return values.every(Boolean) && new Set(values).size === values.length;
+  };
+  return common.find(col => isUnique(a.records, a.header.indexOf(col)) && isUnique(b.records, b.header.indexOf(col))) || common[0];
+};
+
+/**
+ * 按主键列对比两个表格版本：新增、删除与取值变化的行，以及增删的列
+ * 只比较两版共有的列；主键重复时只取首次出现的行并在结果中列出重复的键
+ */
+export const diffVersions = (before: KnowledgeSource, after: KnowledgeSource, keyColumn: string): VersionDiff => {
+  const a = parseCsvTable(before.content);
+  const b = parseCsvTable(after.content);
+  if (!a.header.includes(keyColumn) || !b.header.includes(keyColumn)) {
+    throw new Error(`两个版本必须都包含主键列「${keyColumn}」`);
+  }
+
+  const duplicateKeys = new Set<string>();
+  const indexRows = (header: string[], records: string[][]) => {
+    const keyIndex = header.indexOf(keyColumn);
+    const rows = new Map<string, DiffRow>();
+    records.forEach((record, i) => {
+      const key = (record[keyIndex] ?? '').trim();
+      if (rows.has(key)) { duplicateKeys.add(key); return; }
+      rows.set(key, { key, row: i + 1, values: Object.fromEntries(header.map((col, j) => [col, record[j] ?? ''])) });
+    });
+    return rows;
+  };
+  const beforeRows = indexRows(a.header, a.records);
+  const afterRows = indexRows(b.header, b.records);
+  const columns = a.header.filter(col => b.header.includes(col) && col !== keyColumn);
+
+  const removed: DiffRow[] = [];
+  const changed: ChangedRow[] = [];
+  let unchangedCount = 0;
+  beforeRows.forEach((prev, key) => {
+    const next = afterRows.get(key);
+    if (!next) { removed.push(prev); return; }
+    const changedColumns = columns.filter(col => prev.values[col].trim() !== next.values[col].trim());
+    if (changedColumns.length === 0) { unchangedCount++; return; }
+    changed.push({ key, beforeRow: prev.row, afterRow: next.row, before: prev.values, after: next.values, changedColumns });
+  });
+  const added = Array.from(afterRows.values()).filter(row => !beforeRows.has(row.key));
+
+  return {
+    keyColumn,
+    columns,
+    addedColumns: b.header.filter(col => !a.header.includes(col)),
+    removedColumns: a.header.filter(col => !b.header.includes(col)),
+    added,
+    removed,
+    changed,
+    unchangedCount,
+    duplicateKeys: Array.from(duplicateKeys),
+  };
+};
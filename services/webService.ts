@@ -0,0 +1,141 @@
+/**
+ * 网页抓取器：输入 URL，返回 HTML 文本。可替换为代理或本地测试桩服务
+ */
+export type PageFetcher = (url: string) => Promise<string>;
+
+export interface WebPage {
+  title: string;
+  text: string;
+}
+
+// 正文提取前整体剔除的非内容节点
+const NOISE_SELECTOR = 'script, style, noscript, iframe, svg, canvas, nav, header, footer, aside, form, button, [role="navigation"], [aria-hidden="true"]';
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, figcaption, [data-table-ref]';
+
+const readResponse = async (response: Response): Promise<string> => {
+  if (!response.ok) throw Object.assign(new Error(`网页请求失败（HTTP ${response.status}）`), { status: response.status });
+  return response.text();
+};
+
+const directFetcher: PageFetcher = async (url) => readResponse(await fetch(url));
+
+/**
+ * 经由代理抓取：proxyBase 含 {url} 占位符时替换，否则直接拼接编码后的目标地址
+ */
+export const createProxyFetcher = (proxyBase: string): PageFetcher => async (url) => {
+  const encoded = encodeURIComponent(url);
+  const target = proxyBase.includes('{url}') ? proxyBase.replace('{url}', encoded) : `${proxyBase}${encoded}`;
+  return readResponse(await fetch(target));
+};
+
+// 浏览器直连受 CORS 限制，部署时可通过 WEB_FETCH_PROXY 指定抓取代理
+let activeFetcher: PageFetcher = process.env.WEB_FETCH_PROXY
+  ? createProxyFetcher(process.env.WEB_FETCH_PROXY)
+  : directFetcher;
+
+export const setPageFetcher = (fetcher: PageFetcher) => {
+  activeFetcher = fetcher;
+};
+
+const normalizeText = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+const tableToMarkdown = (table: HTMLTableElement): string => {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .map(tr => Array.from(tr.querySelectorAll<HTMLTableCellElement>('th, td')).flatMap(cell => {
+      const value = normalizeText(cell.textContent).replace(/\|/g, '\\|');
+      // colSpan 由浏览器规范化为 1–1000 的整数，避免小数或超大的 colspan 属性导致异常
+      return Array(cell.colSpan).fill(value);
+    }))
+    .filter(cells => cells.some(c => c.length > 0));
+  if (rows.length === 0) return '';
+
+  const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+  const pad = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+  return [pad(rows[0]), pad(Array(width).fill('---')), ...rows.slice(1).map(pad)].join('\n');
+};
+
+/**
+ * 无 article/main 语义标签时，选取直接段落文本最多的容器作为正文区域
+ */
+const findMainContent = (doc: Document): Element => {
+  const semantic = doc.querySelector('article, main, [role="main"]');
+  if (semantic) return semantic;
+
+  let best: Element = doc.body;
+  let bestScore = 0;
+  doc.body.querySelectorAll('div, section').forEach(el => {
+    const score = Array.from(el.children)
+      .filter(child => child.tagName === 'P')
+      .reduce((sum, p) => sum + normalizeText(p.textContent).length, 0);
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * 从 HTML 中提取标题、正文段落与全部表格（表格以 Markdown 行保留结构）
+ */
+export const extractWebPage = (html: string, url: string): WebPage => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title = normalizeText(doc.querySelector('meta[property="og:title"]')?.getAttribute('content'))
+    || normalizeText(doc.title)
+    || url;
+
+  // 表格先行提取并以占位节点替换，使其在正文中保留原始位置
+  const tables: string[] = [];
+  doc.body.querySelectorAll('table').forEach(table => {
+    if (table.parentElement?.closest('table')) return;
+    const markdown = tableToMarkdown(table);
+    if (!markdown) return;
+    const marker = doc.createElement('p');
+    marker.setAttribute('data-table-ref', String(tables.length));
+    tables.push(markdown);
+    table.replaceWith(marker);
+  });
+  doc.body.querySelectorAll(NOISE_SELECTOR).forEach(el => {
+    if (!el.querySelector('[data-table-ref]')) el.remove();
+  });
+
+  const root = findMainContent(doc);
+  const emitted = new Set<number>();
+  const blocks: string[] = [];
+
+  root.querySelectorAll(BLOCK_SELECTOR).forEach(el => {
+    const ref = el.getAttribute('data-table-ref');
+    if (ref !== null) {
+      emitted.add(Number(ref));
+      blocks.push(`[Table_${Number(ref) + 1}]\n${tables[Number(ref)]}`);
+      return;
+    }
+    // 嵌套块（如 li 内的 p）只取最内层，避免重复
+    if (el.querySelector(BLOCK_SELECTOR)) return;
+    const text = normalizeText(el.textContent);
+    if (!text) return;
+    const level = /^H(\d)$/.exec(el.tagName)?.[1];
+    blocks.push(level ? `${'#'.repeat(Number(level))} ${text}` : el.tagName === 'LI' ? `- ${text}` : text);
+  });
+
+  if (blocks.length === 0) {
+    const fallback = normalizeText(root.textContent);
+    if (fallback) blocks.push(fallback);
+  }
+
+  tables.forEach((markdown, index) => {
+    if (!emitted.has(index)) blocks.push(`[Table_${index + 1}]\n${markdown}`);
+  });
+
+  return { title, text: blocks.join('\n\n') };
+};
+
+/**
+ * 抓取网页并提取正文，正文为空时抛出错误
+ */
+export const fetchWebPage = async (url: string): Promise<WebPage> => {
+  const html = await activeFetcher(url);
+  const page = extractWebPage(html, url);
+  if (!page.text.trim()) throw new Error('未能从网页中提取到正文内容');
+  return page;
+};
@@ -4,7 +4,9 @@ export enum SourceType {
   PDF = 'PDF',
   CSV = 'CSV',
   WEB = 'WEB',
-  TEXT = 'TEXT'
+  TEXT = 'TEXT',
+  SPREADSHEET = 'SPREADSHEET',
+  IMAGE = 'IMAGE'
 }
 
 export enum ProcessingStatus {
@@ -14,11 +16,40 @@ export enum ProcessingStatus {
   ERROR = 'ERROR'
 }
 
+export type ColumnType = 'number' | 'currency' | 'date' | 'text';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+}
+
+export interface TableSchema {
+  columns: ColumnSchema[];
+  rowCount: number; // Data records, header excluded
+  delimiter: string;
+}
+
 export interface Partition {
   id: string;
   name: string;
   description?: string;
   isSystem?: boolean; // For 'All' or 'Uncategorized'
+  parentId?: string; // Nesting, e.g. 销量 → 2024 → Q3
+  instructions?: string; // Analysis rules injected when the partition is in scope
+  glossary?: GlossaryEntry[];
+}
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+}
+
+export interface Entity {
+  id: string;
+  brand: string;
+  model: string; // e.g. 702
+  trim: string; // e.g. Max; empty when the model is sold in a single trim
+  aliases: string[]; // Other exact spellings used in the data, e.g. 702Max
 }
 
 export interface KnowledgeSource {
@@ -33,6 +64,16 @@ export interface KnowledgeSource {
   size?: string;
   status: ProcessingStatus;
   summary?: string; 
+  errorMessage?: string; // Reason shown when status is ERROR
+  encoding?: string; // Text encoding used to decode the original file (CSV/TXT)
+  rawData?: string; // Base64 of the original text file; only on sources imported before uploads were stored separately
+  schema?: TableSchema; // Parsed at ingestion for CSV sources
+  workbookId?: string; // Shared by all sheets imported from the same workbook
+  sheetName?: string;
+  thumbnail?: string; // Small JPEG data URL for image sources
+  versionGroupId?: string; // Id of the first version, shared by every version of the same document
+  version?: number; // 1-based; absent on sources that were never re-uploaded
+  contentHash?: string; // SHA-256 of the uploaded file, used to detect re-uploads
 }
 
 export interface ModalProps {
@@ -40,6 +81,128 @@ export interface ModalProps {
   onClose: () => void;
   children: React.ReactNode;
   title: string;
+  wide?: boolean; // Widen the dialog for data viewers
+}
+
+export type FilterOperator = 'eq' | 'neq' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+export type AggregateOp = 'sum' | 'count' | 'avg' | 'min' | 'max';
+
+export interface QueryFilter {
+  column: string;
+  op: FilterOperator;
+  value?: string;
+  values?: string[]; // For 'in'
+}
+
+export interface QueryAggregate {
+  op: AggregateOp;
+  column?: string; // Omitted for row count
+}
+
+export interface TableQuery {
+  sourceId: string;
+  filters?: QueryFilter[];
+  groupBy?: string[];
+  aggregates?: QueryAggregate[];
+  orderBy?: { column: string; direction: 'asc' | 'desc' };
+  limit?: number;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: (string | number)[][];
+  matchedRowCount: number;
+  matchedRows: number[]; // 1-based [Row_N] numbers that passed the filters
+}
+
+export interface ComputationRecord {
+  id: string; // Calc_N, cited in the answer text
+  sourceId: string;
+  sourceName: string;
+  description: string;
+  query: TableQuery;
+  result?: QueryResult;
+  error?: string;
+}
+
+export interface IndexChunk {
+  id: string;
+  sourceId: string;
+  kind: 'rows' | 'text';
+  start: number; // First row number (rows) or char offset (text)
+  end: number; // Last row number (inclusive) or char offset (exclusive)
+  text: string;
+  terms: Record<string, number>; // Term frequencies for BM25
+  length: number; // Token count
+}
+
+export interface SourceIndex {
+  sourceId: string;
+  contentLength: number; // Used to detect stale indexes
+  builtAt: number;
+  chunks: IndexChunk[];
+}
+
+export interface ContextCoverage {
+  sourceId: string;
+  name: string;
+  status: 'full' | 'partial' | 'excluded';
+  kind: 'rows' | 'text';
+  ranges: [number, number][]; // Included row ranges or char spans
+  total: number; // Total rows or chars in the source
+}
+
+export interface ContextReport {
+  mode: 'full' | 'retrieval';
+  coverage: ContextCoverage[];
+}
+
+export interface BatchProgress {
+  index: number;
+  label: string; // e.g. "sales.csv Row 1–4200"
+  status: 'pending' | 'running' | 'done' | 'error';
+  error?: string;
+}
+
+export type IngestJobStatus = 'queued' | 'running' | 'waiting' | 'done' | 'error';
+
+export interface IngestJob {
+  sourceId: string;
+  label: string;
+  status: IngestJobStatus; // 'waiting' = backing off before the next attempt
+  attempts: number;
+  retryAt?: number;
+  error?: string;
+}
+
+export interface ExhaustiveProgress {
+  phase: 'map' | 'reduce' | 'done';
+  batches: BatchProgress[];
+}
+
+export interface Citation {
+  sourceId: string;
+  kind: 'rows' | 'span';
+  start: number; // First cited row (1-based) or char offset
+  end: number; // Last cited row (inclusive) or char offset (exclusive)
+}
+
+export type ClaimStatus = 'verified' | 'mismatched' | 'unsourced';
+
+export interface ClaimCheck {
+  line: number; // 1-based line of the table row in the answer text
+  cell: number; // 0-based cell index within the row
+  column: string; // Header of the answer table column
+  value: string;
+  status: ClaimStatus;
+  note?: string;
+}
+
+export interface VerificationReport {
+  checks: ClaimCheck[];
+  verified: number;
+  mismatched: number;
+  unsourced: number;
 }
 
 export interface ChatMessage {
@@ -48,6 +211,108 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
   isThinking?: boolean;
+  isStreaming?: boolean;
+  interrupted?: boolean; // Stopped by the user before the answer finished
+  computations?: ComputationRecord[];
+  contextReport?: ContextReport;
+  verification?: VerificationReport;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  partitionIds: string[]; // Analysis partition selection the session runs with
+  pinnedVersions?: Record<string, string>; // versionGroupId → source id analyzed instead of the latest version
+  createdAt: number;
+  updatedAt: number;
 }
 
 export type ViewMode = 'library' | 'analysis';
+
+export type AnalysisMode = 'standard' | 'exhaustive';
+
+export type LlmTask = 'analysis' | 'batch' | 'summary' | 'vision' | 'image';
+
+export interface LlmAttachment {
+  data: string; // base64 without data URL prefix
+  mimeType: string;
+}
+
+export interface LlmToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmMessage {
+  role: 'user' | 'assistant' | 'tool';
+  text?: string;
+  attachments?: LlmAttachment[];
+  toolCalls?: LlmToolCall[]; // Calls requested by the assistant
+  toolCallId?: string; // For role 'tool': the call this result answers
+  toolName?: string;
+  native?: unknown; // Provider-specific payload echoed back verbatim on the next round
+}
+
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  temperature?: number;
+  thinkingBudget?: number;
+  jsonSchema?: Record<string, unknown>; // Ask for a JSON object matching this schema
+  signal?: AbortSignal;
+}
+
+export type LlmStreamEvent = { type: 'thinking' } | { type: 'text', text: string };
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+  native?: unknown;
+}
+
+export interface LlmImageRequest {
+  model: string;
+  prompt: string;
+  image?: LlmAttachment; // Reference image to restyle
+}
+
+export interface LlmProvider {
+  id: string;
+  label: string;
+  nativePdf?: boolean; // Accepts PDF attachments directly
+  suggestedModels: Partial<Record<LlmTask, string[]>>;
+  generate: (request: LlmRequest, onEvent?: (event: LlmStreamEvent) => void) => Promise<LlmResponse>;
+  generateImage?: (request: LlmImageRequest) => Promise<string | null>; // Resolves to a data URL or image URL
+  listModels?: () => Promise<string[]>;
+}
+
+export interface TaskModel {
+  providerId: string;
+  model: string;
+}
+
+export interface LlmSettings {
+  tasks: Record<LlmTask, TaskModel>;
+  openaiBaseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  openaiApiKey: string;
+}
+
+export type ThinkingPreset = 'fast' | 'deep';
+
+export interface AppSettings extends LlmSettings {
+  geminiApiKey: string; // Entered at runtime; the build-time key is used when empty
+  thinkingPreset: ThinkingPreset;
+  temperature: number;
+  historyWindow: number; // Past messages sent along with each question
+  contextBudget: number; // Max characters of source data per analysis request
+  ingestConcurrency: number; // Files processed in parallel by the ingestion queue
+}